@@ -7,6 +7,20 @@ const nextConfig = {
     ignoreBuildErrors: true,
   },
   serverExternalPackages: [],
+  // Cross-origin isolation lets the analysis worklet share its ring buffer instead of posting
+  // every frame. Only the upload page gets it: the Spotify SDK's player iframe doesn't send
+  // the headers isolation requires, so the Spotify pages keep the postMessage path.
+  async headers() {
+    return [
+      {
+        source: '/upload',
+        headers: [
+          { key: 'Cross-Origin-Opener-Policy', value: 'same-origin' },
+          { key: 'Cross-Origin-Embedder-Policy', value: 'require-corp' },
+        ],
+      },
+    ];
+  },
   webpack: (config, { isServer }) => {
     // Prevent ethereum/web3 conflicts
     if (!isServer) {
@@ -39,6 +53,13 @@ const nextConfig = {
         port: '',
         pathname: '/**',
       },
+      {
+        // Playlist covers and artist images
+        protocol: 'https',
+        hostname: '**.spotifycdn.com',
+        port: '',
+        pathname: '/**',
+      },
     ],
   },
 };
@@ -0,0 +1,225 @@
+// Waveline analysis processor - runs the FFT, levels and onset flux on the audio thread.
+// Served as a static file because AudioWorklet modules are loaded by URL.
+//
+// Frames go to the UI through a SharedArrayBuffer ring when the page is cross-origin
+// isolated, otherwise through the message port. Layout of one frame (Float32):
+//   [0] audio clock time (s)  [1] rms  [2] peak  [3] volume  [4] bass  [5] mid  [6] treble
+//   [7] full-band flux  [8] low-band flux  [9] bin count  [10] waveform length
+//   [11..] byte-scaled spectrum (0-255), then the most recent time-domain samples (-1 to 1)
+
+const HEADER_SIZE = 11;
+const WAVEFORM_SIZE = 1024;
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+const HOP_SIZE = 512;
+
+class AnalysisProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+
+    this.ranges = opts.ranges;
+    this.maxBins = opts.maxBins;
+    this.capacity = opts.capacity;
+    this.control = opts.sharedBuffer ? new Int32Array(opts.sharedBuffer, 0, 2) : null;
+    this.frames = opts.sharedBuffer ? new Float32Array(opts.sharedBuffer, 8) : null;
+
+    this.configure(opts.fftSize, opts.smoothing);
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === 'configure') {
+        this.configure(event.data.fftSize, event.data.smoothing);
+      }
+    };
+  }
+
+  configure(fftSize, smoothing) {
+    if (fftSize !== this.fftSize) {
+      this.fftSize = fftSize;
+      this.binCount = fftSize / 2;
+      this.input = new Float32Array(fftSize);
+      this.inputIndex = 0;
+      this.sinceLastFrame = 0;
+      this.real = new Float32Array(fftSize);
+      this.imag = new Float32Array(fftSize);
+      this.smoothed = new Float32Array(this.binCount);
+      this.previous = new Float32Array(this.binCount);
+      this.spectrum = new Float32Array(this.binCount);
+      this.waveform = new Float32Array(Math.min(WAVEFORM_SIZE, fftSize));
+
+      // Blackman window, matching AnalyserNode
+      this.window = new Float32Array(fftSize);
+      for (let i = 0; i < fftSize; i++) {
+        const x = (2 * Math.PI * i) / fftSize;
+        this.window[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+      }
+
+      this.cosTable = new Float32Array(fftSize / 2);
+      this.sinTable = new Float32Array(fftSize / 2);
+      for (let k = 0; k < fftSize / 2; k++) {
+        this.cosTable[k] = Math.cos((-2 * Math.PI * k) / fftSize);
+        this.sinTable[k] = Math.sin((-2 * Math.PI * k) / fftSize);
+      }
+
+      this.bitReverse = new Uint32Array(fftSize);
+      const bits = Math.log2(fftSize);
+      for (let i = 0; i < fftSize; i++) {
+        let reversed = 0;
+        for (let b = 0; b < bits; b++) reversed |= ((i >> b) & 1) << (bits - 1 - b);
+        this.bitReverse[i] = reversed;
+      }
+
+      this.levelBins = {};
+      for (const name of Object.keys(this.ranges)) {
+        const [low, high] = this.ranges[name];
+        const start = Math.min(this.binCount - 1, Math.max(0, Math.floor((low * fftSize) / sampleRate)));
+        const end = Math.min(this.binCount, Math.max(start + 1, Math.ceil((Math.min(high, sampleRate / 2) * fftSize) / sampleRate)));
+        this.levelBins[name] = [start, end];
+      }
+    }
+    this.smoothing = smoothing;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const channels = input.length;
+    const blockLength = input[0].length;
+
+    for (let i = 0; i < blockLength; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels; c++) sample += input[c][i];
+      this.input[this.inputIndex] = sample / channels;
+      this.inputIndex = (this.inputIndex + 1) % this.fftSize;
+    }
+
+    this.sinceLastFrame += blockLength;
+    if (this.sinceLastFrame >= HOP_SIZE) {
+      this.sinceLastFrame = 0;
+      this.analyse();
+    }
+
+    return true;
+  }
+
+  fft() {
+    const n = this.fftSize;
+    const real = this.real;
+    const imag = this.imag;
+
+    for (let i = 0; i < n; i++) {
+      const j = this.bitReverse[i];
+      if (j > i) {
+        const tr = real[i]; real[i] = real[j]; real[j] = tr;
+        const ti = imag[i]; imag[i] = imag[j]; imag[j] = ti;
+      }
+    }
+
+    for (let size = 2; size <= n; size *= 2) {
+      const half = size / 2;
+      const tableStep = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.cosTable[k * tableStep];
+          const sin = this.sinTable[k * tableStep];
+          const a = start + k;
+          const b = a + half;
+          const tr = real[b] * cos - imag[b] * sin;
+          const ti = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+
+  analyse() {
+    const n = this.fftSize;
+    let sumSquares = 0;
+    let peak = 0;
+
+    // Oldest sample first, windowed into the FFT buffers
+    const waveformStart = n - this.waveform.length;
+    for (let i = 0; i < n; i++) {
+      const sample = this.input[(this.inputIndex + i) % n];
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+      this.real[i] = sample * this.window[i];
+      this.imag[i] = 0;
+      if (i >= waveformStart) this.waveform[i - waveformStart] = sample;
+    }
+
+    this.fft();
+
+    const range = MAX_DECIBELS - MIN_DECIBELS;
+    const lowEnd = this.levelBins.bass[1];
+    let total = 0;
+    let flux = 0;
+    let lowFlux = 0;
+
+    for (let k = 0; k < this.binCount; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / n;
+      this.smoothed[k] = this.smoothing * this.smoothed[k] + (1 - this.smoothing) * magnitude;
+
+      const decibels = 20 * Math.log10(this.smoothed[k] + 1e-12);
+      const value = Math.max(0, Math.min(255, Math.floor((255 * (decibels - MIN_DECIBELS)) / range)));
+      this.spectrum[k] = value;
+      total += value;
+
+      const rise = value / 255 - this.previous[k];
+      if (rise > 0) {
+        flux += rise;
+        if (k < lowEnd) lowFlux += rise;
+      }
+      this.previous[k] = value / 255;
+    }
+
+    const level = (name) => {
+      const [start, end] = this.levelBins[name];
+      let sum = 0;
+      for (let k = start; k < end; k++) sum += this.spectrum[k];
+      return sum / ((end - start) * 255);
+    };
+
+    const header = [
+      currentTime,
+      Math.sqrt(sumSquares / n),
+      peak,
+      total / (this.binCount * 255),
+      level('bass'),
+      level('mid'),
+      level('treble'),
+      flux / this.binCount,
+      lowFlux / Math.max(1, lowEnd),
+      this.binCount,
+      this.waveform.length,
+    ];
+
+    this.publish(header);
+  }
+
+  publish(header) {
+    if (this.control && this.frames) {
+      const stride = HEADER_SIZE + this.maxBins + WAVEFORM_SIZE;
+      const written = Atomics.load(this.control, 0);
+      const offset = (written % this.capacity) * stride;
+
+      this.frames.set(header, offset);
+      this.frames.set(this.spectrum, offset + HEADER_SIZE);
+      this.frames.set(this.waveform, offset + HEADER_SIZE + this.binCount);
+      Atomics.store(this.control, 0, written + 1);
+      return;
+    }
+
+    const frame = new Float32Array(HEADER_SIZE + this.binCount + this.waveform.length);
+    frame.set(header, 0);
+    frame.set(this.spectrum, HEADER_SIZE);
+    frame.set(this.waveform, HEADER_SIZE + this.binCount);
+    this.port.postMessage(frame, [frame.buffer]);
+  }
+}
+
+registerProcessor('waveline-analysis', AnalysisProcessor);
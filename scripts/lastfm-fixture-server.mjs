@@ -0,0 +1,47 @@
+// Local stand-in for the Last.fm API, serving canned top tags from fixtures/lastfm.json.
+//
+//   npm run fixtures:lastfm
+//   LASTFM_API_URL=http://localhost:4545/2.0/ LASTFM_API_KEY=fixture npm run dev
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const port = Number(process.env.PORT) || 4545;
+const fixtures = JSON.parse(readFileSync(new URL('./fixtures/lastfm.json', import.meta.url), 'utf8'));
+
+const toptags = (tags, attr) => ({
+  toptags: {
+    tag: tags.map(tag => ({ ...tag, url: `https://www.last.fm/tag/${encodeURIComponent(tag.name)}` })),
+    '@attr': attr,
+  },
+});
+
+const notFound = (message) => ({ error: 6, message, links: [] });
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url, `http://localhost:${port}`);
+  const params = url.searchParams;
+  const artist = (params.get('artist') || '').toLowerCase();
+  const track = (params.get('track') || '').toLowerCase();
+  let body;
+
+  if (!params.get('api_key')) {
+    body = { error: 10, message: 'Invalid API key - You must be granted a valid key by last.fm' };
+  } else if (params.get('method') === 'track.gettoptags') {
+    const tags = fixtures.tracks[`${artist}|${track}`];
+    body = tags ? toptags(tags, { artist, track }) : notFound('Track not found');
+  } else if (params.get('method') === 'artist.gettoptags') {
+    const tags = fixtures.artists[artist];
+    body = tags ? toptags(tags, { artist }) : notFound('The artist you supplied could not be found');
+  } else {
+    body = { error: 3, message: 'Invalid Method - No method with that name in this package' };
+  }
+
+  console.log(`${params.get('method')} ${artist}${track ? ` - ${track}` : ''} -> ${body.error ? `error ${body.error}` : 'ok'}`);
+  response.writeHead(200, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+});
+
+server.listen(port, () => {
+  console.log(`Last.fm fixture server listening on http://localhost:${port}/2.0/`);
+});
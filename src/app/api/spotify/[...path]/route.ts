@@ -1,8 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthCookie, setAuthCookie, refreshSpotifyToken, clearAuthCookie } from '@/lib/auth';
 
+// Library and playlist paths accept writes upstream (saving, reordering, editing), but
+// the browser only reads them
+const readOnlyPaths = [
+  'me/tracks',
+  'me/albums',
+  'playlists',
+  'albums',
+];
+
+function matchesPath(path: string, allowed: string): boolean {
+  return path === allowed || path.startsWith(allowed + '?') || path.startsWith(allowed + '/');
+}
+
 // Input validation for API paths
-function validateSpotifyPath(path: string): boolean {
+function validateSpotifyPath(path: string, method: string): boolean {
+  if (readOnlyPaths.some(allowed => matchesPath(path, allowed))) {
+    return method === 'GET';
+  }
+
   const allowedPaths = [
     'me/player/currently-playing',
     'me/player/play',
@@ -10,20 +27,23 @@ function validateSpotifyPath(path: string): boolean {
     'me/player/next',
     'me/player/previous',
     'me/player/volume',
+    'me/player/queue',
+    'me/player/seek',
+    'me/player/shuffle',
+    'me/player/repeat',
+    'me/player/devices',
     'me/player',
     'me/top/tracks',
     'me/playlists',
     'search'
   ];
   
-  return allowedPaths.some(allowed => 
-    path === allowed || path.startsWith(allowed + '?') || path.startsWith(allowed + '/')
-  );
+  return allowedPaths.some(allowed => matchesPath(path, allowed));
 }
 
 async function makeSpotifyRequest(path: string, tokens: any, options: RequestInit = {}) {
   // Validate the path to prevent unauthorized API access
-  if (!validateSpotifyPath(path)) {
+  if (!validateSpotifyPath(path, options.method ?? 'GET')) {
     throw new Error('Unauthorized API path');
   }
   
@@ -41,7 +61,21 @@ async function makeSpotifyRequest(path: string, tokens: any, options: RequestIni
   return response;
 }
 
+// Player writes (queue, seek, shuffle) can answer 200 with an empty or non-JSON body
+async function readSpotifyBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
 async function handleSpotifyRequest(request: NextRequest, path: string) {
+  if (!validateSpotifyPath(path, request.method)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
   try {
     let tokens = await getAuthCookie();
     
@@ -85,7 +119,7 @@ async function handleSpotifyRequest(request: NextRequest, path: string) {
         body: request.method !== 'GET' ? await request.text() : undefined,
       });
       
-      const data = retryResponse.status === 204 ? null : await retryResponse.json();
+      const data = retryResponse.status === 204 ? null : await readSpotifyBody(retryResponse);
       return NextResponse.json(data, { status: retryResponse.status });
     }
 
@@ -94,7 +128,7 @@ async function handleSpotifyRequest(request: NextRequest, path: string) {
       return new NextResponse(null, { status: 204 });
     }
 
-    const data = await spotifyResponse.json();
+    const data = await readSpotifyBody(spotifyResponse);
     return NextResponse.json(data, { status: spotifyResponse.status });
 
   } catch (error) {
@@ -112,22 +146,24 @@ async function handleSpotifyRequest(request: NextRequest, path: string) {
   }
 }
 
+// Writes take their arguments in the query too (e.g. me/player/queue?uri=...)
+function withSearchParams(request: NextRequest, path: string): string {
+  // Validate and sanitize search parameters
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of request.nextUrl.searchParams.entries()) {
+    // Only allow safe parameter names and values
+    if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(key) && value.length < 1000) {
+      searchParams.set(key, value);
+    }
+  }
+
+  return searchParams.toString() ? `${path}?${searchParams.toString()}` : path;
+}
+
 export async function GET(request: NextRequest, { params }: { params: { path: string[] } }) {
   try {
     const path = params.path.join('/');
-    
-    // Validate and sanitize search parameters
-    const searchParams = new URLSearchParams();
-    for (const [key, value] of request.nextUrl.searchParams.entries()) {
-      // Only allow safe parameter names and values
-      if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(key) && value.length < 1000) {
-        searchParams.set(key, value);
-      }
-    }
-    
-    const fullPath = searchParams.toString() ? `${path}?${searchParams.toString()}` : path;
-    
-    return handleSpotifyRequest(request, fullPath);
+    return handleSpotifyRequest(request, withSearchParams(request, path));
   } catch (error) {
     console.error('GET request validation error:', error);
     return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
@@ -136,15 +172,15 @@ export async function GET(request: NextRequest, { params }: { params: { path: st
 
 export async function POST(request: NextRequest, { params }: { params: { path: string[] } }) {
   const path = params.path.join('/');
-  return handleSpotifyRequest(request, path);
+  return handleSpotifyRequest(request, withSearchParams(request, path));
 }
 
 export async function PUT(request: NextRequest, { params }: { params: { path: string[] } }) {
   const path = params.path.join('/');
-  return handleSpotifyRequest(request, path);
+  return handleSpotifyRequest(request, withSearchParams(request, path));
 }
 
 export async function DELETE(request: NextRequest, { params }: { params: { path: string[] } }) {
   const path = params.path.join('/');
-  return handleSpotifyRequest(request, path);
+  return handleSpotifyRequest(request, withSearchParams(request, path));
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrackCache, isCacheAdminRequest, isValidTrackId } from '@/lib/trackCache';
+
+type RouteContext = { params: Promise<{ trackId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isCacheAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { trackId } = await params;
+  if (!isValidTrackId(trackId)) {
+    return NextResponse.json({ error: 'Invalid track id' }, { status: 400 });
+  }
+
+  const entry = await getTrackCache().get(trackId);
+  if (!entry) {
+    return NextResponse.json({ error: 'Not cached' }, { status: 404 });
+  }
+
+  return NextResponse.json(entry);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isCacheAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { trackId } = await params;
+  if (!isValidTrackId(trackId)) {
+    return NextResponse.json({ error: 'Invalid track id' }, { status: 400 });
+  }
+
+  const removed = await getTrackCache().delete(trackId);
+  return NextResponse.json({ removed }, { status: removed ? 200 : 404 });
+}
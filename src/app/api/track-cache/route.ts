@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrackCache, isCacheAdminRequest } from '@/lib/trackCache';
+
+// GET lists cached tracks with cache stats; ?full=1 includes the cached payloads
+export async function GET(request: NextRequest) {
+  if (!isCacheAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const cache = getTrackCache();
+    const includeData = request.nextUrl.searchParams.get('full') === '1';
+    const now = Date.now();
+
+    const entries = (await cache.list()).map(({ data, ...entry }) => ({
+      ...entry,
+      expired: entry.expiresAt <= now,
+      ...(includeData ? { data } : {}),
+    }));
+
+    return NextResponse.json({ stats: cache.getStats(), count: entries.length, entries });
+  } catch (error) {
+    console.error('Track cache list error:', error);
+    return NextResponse.json({ error: 'Failed to read track cache' }, { status: 500 });
+  }
+}
+
+// DELETE purges every entry, or only expired/stale ones with ?expired=1
+export async function DELETE(request: NextRequest) {
+  if (!isCacheAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const expiredOnly = request.nextUrl.searchParams.get('expired') === '1';
+    const removed = await getTrackCache().purge(expiredOnly);
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error('Track cache purge error:', error);
+    return NextResponse.json({ error: 'Failed to purge track cache' }, { status: 500 });
+  }
+}
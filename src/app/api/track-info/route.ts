@@ -1,16 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTrackCache, isValidTrackId } from '@/lib/trackCache';
+import { getAuthCookie } from '@/lib/auth';
+import { getProvidedAudioFeatures } from '@/lib/audioAnalysis';
+import type { ChainResult } from '@/lib/metadataProviders';
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 
-export async function POST(request: NextRequest) {
+interface VerifiedTrack {
+  name: string;
+  artists: string[];
+  isrc?: string;
+}
+
+// The track as Spotify has it. Supplies the ISRC the Web Playback SDK leaves out, and is
+// what a client-sent id, name and artist are checked against before anything is cached.
+async function lookupSpotifyTrack(trackId: string): Promise<VerifiedTrack | null> {
   try {
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY not configured');
-    }
+    const tokens = await getAuthCookie();
+    if (!tokens || Date.now() >= tokens.expires_at) return null;
 
-    const { trackName, artists, album } = await request.json();
+    const response = await fetch(`https://api.spotify.com/v1/tracks/${trackId}`, {
+      headers: { 'Authorization': `Bearer ${tokens.access_token}` },
+    });
+    if (!response.ok) return null;
+    const track = await response.json();
+    return {
+      name: track.name,
+      artists: (track.artists ?? []).map((artist: { name: string }) => artist.name),
+      isrc: track.external_ids?.isrc,
+    };
+  } catch (error) {
+    console.warn('Spotify track lookup failed:', error);
+    return null;
+  }
+}
 
-    const prompt = `You are a music expert and visual artist. Analyze this song and provide ONLY a JSON response with accurate data including a unique visual DNA:
+// Cache entries are shared by everyone who plays the track, so the analysis must have been
+// made for the track the id really names
+function matchesVerifiedTrack(verified: VerifiedTrack | null, trackName: unknown, primaryArtist: unknown) {
+  if (!verified || typeof trackName !== 'string' || typeof primaryArtist !== 'string') return false;
+  const normalize = (value: string) => value.trim().toLowerCase();
+  return normalize(verified.name) === normalize(trackName)
+    && verified.artists.some(artist => normalize(artist) === normalize(primaryArtist));
+}
+
+// Tag and catalogue data is measured rather than guessed, so it wins for the fields it covers
+function withProvidedFeatures<T extends object>(info: T, provided: ChainResult | null) {
+  if (!provided) return info;
+  const defined = Object.fromEntries(
+    (['energy', 'valence', 'tempo', 'danceability', 'genre', 'releaseYear', 'key'] as const)
+      .filter(field => provided[field] !== undefined)
+      .map(field => [field, provided[field]])
+  );
+  return { ...info, ...defined, source: provided.source };
+}
+
+// Gemini's guess at the track's feel and visual identity, clamped to sane ranges
+async function fetchGeminiInfo(trackName: string, artists: string, album: string) {
+  if (!GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY not configured');
+  }
+
+  const prompt = `You are a music expert and visual artist. Analyze this song and provide ONLY a JSON response with accurate data including a unique visual DNA:
 
 Song: "${trackName}" by ${artists}
 Album: ${album}
@@ -39,68 +90,110 @@ Return ONLY this JSON format (no other text):
 
 Be specific and accurate. Create a unique visual identity for this exact song.`;
 
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${GEMINI_API_KEY}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contents: [{
+        parts: [{
+          text: prompt
         }]
-      })
-    });
+      }]
+    })
+  });
 
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status}`);
-    }
+  if (!response.ok) {
+    throw new Error(`Gemini API error: ${response.status}`);
+  }
 
-    const data = await response.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  const data = await response.json();
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
 
-    if (!text) {
-      throw new Error('No response from Gemini');
-    }
+  if (!text) {
+    throw new Error('No response from Gemini');
+  }
+
+  // Extract JSON from the response
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in response');
+  }
 
-    // Extract JSON from the response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
+  const trackInfo = JSON.parse(jsonMatch[0]);
+  
+  // Validate and sanitize the response
+  return {
+    energy: Math.max(0, Math.min(1, trackInfo.energy || 0.7)),
+    valence: Math.max(0, Math.min(1, trackInfo.valence || 0.6)),
+    tempo: Math.max(60, Math.min(200, trackInfo.tempo || 120)),
+    danceability: Math.max(0, Math.min(1, trackInfo.danceability || 0.7)),
+    genre: trackInfo.genre || 'Unknown',
+    mood: trackInfo.mood || 'Energetic',
+    description: trackInfo.description || 'A great track',
+    visualDNA: {
+      primaryColor: trackInfo.visualDNA?.primaryColor || '#6366f1',
+      secondaryColor: trackInfo.visualDNA?.secondaryColor || '#8b5cf6',
+      accentColor: trackInfo.visualDNA?.accentColor || '#f59e0b',
+      particleShape: trackInfo.visualDNA?.particleShape || 'circle',
+      particleSpeed: Math.max(0.1, Math.min(2.0, trackInfo.visualDNA?.particleSpeed || 1.0)),
+      particleSize: Math.max(0.5, Math.min(3.0, trackInfo.visualDNA?.particleSize || 1.5)),
+      flowPattern: trackInfo.visualDNA?.flowPattern || 'radial',
+      complexity: Math.max(1, Math.min(10, trackInfo.visualDNA?.complexity || 5)),
+      brightness: Math.max(0.3, Math.min(1.0, trackInfo.visualDNA?.brightness || 0.8))
     }
+  };
+}
 
-    const trackInfo = JSON.parse(jsonMatch[0]);
-    
-    // Validate and sanitize the response
-    const sanitizedInfo = {
-      energy: Math.max(0, Math.min(1, trackInfo.energy || 0.7)),
-      valence: Math.max(0, Math.min(1, trackInfo.valence || 0.6)),
-      tempo: Math.max(60, Math.min(200, trackInfo.tempo || 120)),
-      danceability: Math.max(0, Math.min(1, trackInfo.danceability || 0.7)),
-      genre: trackInfo.genre || 'Unknown',
-      mood: trackInfo.mood || 'Energetic',
-      description: trackInfo.description || 'A great track',
-      visualDNA: {
-        primaryColor: trackInfo.visualDNA?.primaryColor || '#6366f1',
-        secondaryColor: trackInfo.visualDNA?.secondaryColor || '#8b5cf6',
-        accentColor: trackInfo.visualDNA?.accentColor || '#f59e0b',
-        particleShape: trackInfo.visualDNA?.particleShape || 'circle',
-        particleSpeed: Math.max(0.1, Math.min(2.0, trackInfo.visualDNA?.particleSpeed || 1.0)),
-        particleSize: Math.max(0.5, Math.min(3.0, trackInfo.visualDNA?.particleSize || 1.5)),
-        flowPattern: trackInfo.visualDNA?.flowPattern || 'radial',
-        complexity: Math.max(1, Math.min(10, trackInfo.visualDNA?.complexity || 5)),
-        brightness: Math.max(0.3, Math.min(1.0, trackInfo.visualDNA?.brightness || 0.8))
+export async function POST(request: NextRequest) {
+  let provided: ChainResult | null = null;
+
+  try {
+    const { trackId, trackName, artists, primaryArtist, album, isrc } = await request.json();
+
+    // Cache hits are served without touching Gemini
+    const cache = getTrackCache();
+    if (isValidTrackId(trackId)) {
+      const cached = await cache.get(trackId);
+      if (cached) {
+        return NextResponse.json(cached.data, { headers: { 'X-Cache': 'HIT' } });
       }
-    };
+    }
+
+    // Local files have no Spotify id, but Last.fm and MusicBrainz can still match them by name
+    const trackLookup = isValidTrackId(trackId) ? lookupSpotifyTrack(trackId) : Promise.resolve(null);
+    const providedLookup = trackLookup.then(verified => getProvidedAudioFeatures({
+      // Providers cache by id, so anything without one is keyed by name
+      id: typeof trackId === 'string' && trackId ? trackId : `${primaryArtist}|${trackName}`,
+      name: trackName,
+      artists: [{ name: primaryArtist ?? artists ?? '' }],
+      album: { name: album ?? '', release_date: '' },
+      external_ids: { isrc: isrc ?? verified?.isrc },
+    }));
+
+    // Gemini doesn't need the providers' answers, so neither waits on the other
+    const [providedResult, geminiResult] = await Promise.allSettled([
+      providedLookup,
+      fetchGeminiInfo(trackName, artists, album),
+    ]);
+    if (providedResult.status === 'fulfilled') provided = providedResult.value;
+    if (geminiResult.status === 'rejected') throw geminiResult.reason;
 
-    return NextResponse.json(sanitizedInfo);
+    const sanitizedInfo = withProvidedFeatures(geminiResult.value, provided);
+
+    // Only real analyses of verified tracks are cached; the defaults below are retried on the next play
+    if (isValidTrackId(trackId) && matchesVerifiedTrack(await trackLookup, trackName, primaryArtist)) {
+      await cache.set(trackId, sanitizedInfo);
+    }
+
+    return NextResponse.json(sanitizedInfo, { headers: { 'X-Cache': 'MISS' } });
 
   } catch (error) {
     console.error('Track info error:', error);
     
-    // Return sensible defaults if AI fails
-    return NextResponse.json({
+    // Return sensible defaults if AI fails, with whatever the providers found
+    return NextResponse.json(withProvidedFeatures({
       energy: 0.7,
       valence: 0.6,
       tempo: 120,
@@ -119,6 +212,6 @@ Be specific and accurate. Create a unique visual identity for this exact song.`;
         complexity: 5,
         brightness: 0.8
       }
-    });
+    }, provided));
   }
 }
\ No newline at end of file
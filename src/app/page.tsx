@@ -59,13 +59,13 @@ export default function Home() {
               </span>
             </Link>
 
-            <Link
+            {/* A full page load, so the upload page comes up cross-origin isolated (see next.config.js) */}
+            <a
               href="/upload"
-              prefetch={false}
               className="px-12 py-6 bg-white/10 hover:bg-white/20 backdrop-blur-lg text-white font-bold text-xl rounded-2xl border border-white/20 transition-all transform hover:scale-105"
             >
               📁 Upload Audio
-            </Link>
+            </a>
           </motion.div>
         </div>
 
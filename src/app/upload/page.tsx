@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import MainVisualizer from '@/components/MainVisualizer';
+import ErrorBoundary from '@/components/ErrorBoundary';
+import { readAudioTags } from '@/lib/audioTags';
+import type { LocalTrack } from '@/hooks/useSpotifyPlayer';
+
+const ACCEPTED_EXTENSIONS = ['.mp3', '.wav', '.flac', '.ogg', '.oga', '.opus'];
+const ACCEPT = [...ACCEPTED_EXTENSIONS, 'audio/mpeg', 'audio/wav', 'audio/flac', 'audio/ogg'].join(',');
+
+// Stable per file, so the metadata providers' caches still match a re-upload. The colon keeps
+// it outside the Spotify id pattern, so the server never looks it up or caches it as a track.
+function localTrackId(file: File): string {
+  let hash = 0x811c9dc5;
+  for (const char of `${file.name}|${file.size}|${file.lastModified}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return `local:${(hash >>> 0).toString(16)}`;
+}
+
+function isSupported(file: File, audio: HTMLAudioElement | null): boolean {
+  const name = file.name.toLowerCase();
+  if (!ACCEPTED_EXTENSIONS.some(extension => name.endsWith(extension))) return false;
+  // An empty answer means this browser can't decode the format at all
+  return !file.type || !audio || audio.canPlayType(file.type) !== '';
+}
+
+export default function UploadPage() {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const [localTrack, setLocalTrack] = useState<LocalTrack | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const urlsRef = useRef<{ audio?: string; cover?: string }>({});
+  const loadRef = useRef(0); // bumped per file, so a slow tag read can't land on a newer one
+
+  const releaseUrls = () => {
+    if (urlsRef.current.audio) URL.revokeObjectURL(urlsRef.current.audio);
+    if (urlsRef.current.cover) URL.revokeObjectURL(urlsRef.current.cover);
+    urlsRef.current = {};
+  };
+
+  useEffect(() => () => {
+    loadRef.current++;
+    releaseUrls();
+  }, []);
+
+  const loadFile = async (file: File) => {
+    if (!audioElement) return;
+    if (!isSupported(file, audioElement)) {
+      setError(`Can't play ${file.name} - use an MP3, WAV, FLAC or OGG file`);
+      return;
+    }
+
+    const load = ++loadRef.current;
+    setError(null);
+    releaseUrls();
+    urlsRef.current.audio = URL.createObjectURL(file);
+
+    // Show the file straight away, then fill in whatever the tags have
+    const id = localTrackId(file);
+    const fallbackName = file.name.replace(/\.[^.]+$/, '');
+    setLocalTrack({ id, name: fallbackName, artists: ['Unknown Artist'], album: 'Local file' });
+
+    audioElement.src = urlsRef.current.audio;
+    // Still inside the drop/click gesture, so the browser lets this start audio
+    audioElement.play().catch(playError => console.warn('Autoplay blocked:', playError));
+
+    const tags = await readAudioTags(file);
+    // Another file was picked meanwhile and already released this one's URLs
+    if (load !== loadRef.current) return;
+    if (tags.picture) urlsRef.current.cover = URL.createObjectURL(tags.picture);
+
+    setLocalTrack({
+      id,
+      name: tags.title || fallbackName,
+      artists: tags.artist ? [tags.artist] : ['Unknown Artist'],
+      album: tags.album || 'Local file',
+      image: urlsRef.current.cover,
+    });
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  const handleSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadFile(file);
+    event.target.value = '';
+  };
+
+  return (
+    <ErrorBoundary>
+      {/* One element for every file, so its analyser source node is created once */}
+      <audio ref={setAudioElement} preload="auto" className="hidden" />
+      <input ref={inputRef} type="file" accept={ACCEPT} onChange={handleSelect} className="hidden" />
+
+      {/* Back Button */}
+      <div className="absolute top-4 left-4 z-50 flex gap-2">
+        <button
+          onClick={() => router.push('/')}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-black/30 text-white/70 hover:text-white hover:bg-black/40 transition-all backdrop-blur-sm"
+        >
+          ← Back
+        </button>
+        {localTrack && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-black/30 text-white/70 hover:text-white hover:bg-black/40 transition-all backdrop-blur-sm"
+          >
+            📁 Change File
+          </button>
+        )}
+        {localTrack && error && (
+          <span className="self-center text-red-400 text-sm">{error}</span>
+        )}
+      </div>
+
+      {localTrack && audioElement ? (
+        <div
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={handleDrop}
+        >
+          <MainVisualizer mediaElement={audioElement} localTrack={localTrack} />
+        </div>
+      ) : (
+        <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-6">
+          <div
+            onDragOver={(event) => {
+              event.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => inputRef.current?.click()}
+            className={`w-full max-w-xl cursor-pointer rounded-3xl border-2 border-dashed p-16 text-center transition-all ${isDragging
+              ? 'border-purple-400 bg-white/10 scale-105'
+              : 'border-white/20 bg-white/5 hover:bg-white/10'
+              }`}
+          >
+            <div className="text-6xl mb-4">📁</div>
+            <h2 className="text-2xl font-bold text-white mb-2">Drop an audio file</h2>
+            <p className="text-gray-300">MP3, WAV, FLAC or OGG - or click to browse</p>
+            <p className="text-gray-500 text-xs mt-4">Audio is decoded in your browser and never uploaded</p>
+            {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+          </div>
+        </div>
+      )}
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import Image from 'next/image';
+
+interface ArtworkProps {
+  src?: string;
+  alt: string;
+  size?: number; // px, square
+}
+
+// Cover art thumbnail, with a blank tile where Spotify has no image
+export default function Artwork({ src, alt, size = 40 }: ArtworkProps) {
+  return src ? (
+    <Image src={src} alt={alt} width={size} height={size} className="rounded object-cover flex-shrink-0" style={{ width: size, height: size }} />
+  ) : (
+    <div className="rounded bg-white/10 flex-shrink-0" style={{ width: size, height: size }} />
+  );
+}
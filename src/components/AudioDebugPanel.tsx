@@ -1,16 +1,84 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import type { ReplayControl, ReplayStatus } from '@/hooks/useSpotifyPlayer';
+import { useAudioFrame } from '@/hooks/useAudioFrame';
+import type { AudioFrameBus } from '@/lib/audioFrameBus';
+import { SESSION_FILE_EXTENSION } from '@/lib/sessionRecording';
 
 interface AudioDebugPanelProps {
-  audioData: any;
+  audioFrames: AudioFrameBus;
   hasRealAudio: boolean;
   isPlaying: boolean;
+  recording: boolean;
+  replay: ReplayStatus | null;
+  getReplayStatus: () => ReplayStatus | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onLoadRecording: (file: File) => Promise<void>;
+  onControlReplay: (control: ReplayControl) => void;
+  onCloseReplay: () => void;
 }
 
-export default function AudioDebugPanel({ audioData, hasRealAudio, isPlaying }: AudioDebugPanelProps) {
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2];
+
+function formatMs(ms: number): string {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export default function AudioDebugPanel({
+  audioFrames,
+  hasRealAudio,
+  isPlaying,
+  recording,
+  replay: replayState,
+  getReplayStatus,
+  onStartRecording,
+  onStopRecording,
+  onLoadRecording,
+  onControlReplay,
+  onCloseReplay,
+}: AudioDebugPanelProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [debugInfo, setDebugInfo] = useState<any>({});
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const frameTimeRef = useRef(0);
+
+  // Sampled a few times a second while open, and not at all while closed
+  const audioData = useAudioFrame(audioFrames, frame => frame, isVisible ? 10 : 0);
+  // The replay position isn't state, so it is read on each of those refreshes
+  const replay = replayState && (getReplayStatus() ?? replayState);
+
+  // Average animation frame time, to see what the rest of the page costs
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const measure = (now: number) => {
+      frameTimeRef.current = frameTimeRef.current * 0.95 + (now - last) * 0.05;
+      last = now;
+      frame = requestAnimationFrame(measure);
+    };
+
+    frame = requestAnimationFrame(measure);
+    return () => cancelAnimationFrame(frame);
+  }, [isVisible]);
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setSessionError(null);
+      await onLoadRecording(file);
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : 'Could not read recording');
+    }
+  };
 
   useEffect(() => {
     setDebugInfo({
@@ -47,6 +115,83 @@ export default function AudioDebugPanel({ audioData, hasRealAudio, isPlaying }:
       </div>
 
       <div className="space-y-2">
+        {/* Record / replay */}
+        <div className="pb-2 border-b border-gray-700 space-y-2">
+          <input
+            ref={recordingInputRef}
+            type="file"
+            accept={`${SESSION_FILE_EXTENSION},.json,.gz`}
+            onChange={handleLoad}
+            className="hidden"
+          />
+          {!replay && (
+            <div className="flex gap-2">
+              <button
+                onClick={recording ? onStopRecording : onStartRecording}
+                className={`flex-1 rounded px-2 py-1 transition-colors ${recording
+                  ? 'bg-red-600/80 hover:bg-red-500 text-white animate-pulse'
+                  : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+              >
+                {recording ? '■ Stop & Save' : '● Record'}
+              </button>
+              <button
+                onClick={() => recordingInputRef.current?.click()}
+                disabled={recording}
+                className="flex-1 rounded px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 transition-colors"
+              >
+                Load Recording
+              </button>
+            </div>
+          )}
+
+          {replay && (
+            <>
+              <div className="flex justify-between">
+                <span>Replay:</span>
+                <span className="text-purple-400 truncate ml-2">{replay.track?.name ?? 'Untitled session'}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max={replay.duration}
+                value={replay.position}
+                onChange={(e) => onControlReplay({ seek: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none slider cursor-pointer"
+              />
+              <div className="flex justify-between text-gray-500 tabular-nums">
+                <span>{formatMs(replay.position)} / {formatMs(replay.duration)}</span>
+                <span>Frame {replay.frameIndex + 1}/{replay.frameCount}</span>
+              </div>
+              <div className="flex gap-1">
+                <button onClick={() => onControlReplay({ step: -1 })} className="rounded px-2 py-1 bg-gray-700 hover:bg-gray-600" title="Previous frame">
+                  ⏮
+                </button>
+                <button onClick={() => onControlReplay({ playing: !replay.playing })} className="flex-1 rounded px-2 py-1 bg-gray-700 hover:bg-gray-600">
+                  {replay.playing ? 'Pause' : 'Play'}
+                </button>
+                <button onClick={() => onControlReplay({ step: 1 })} className="rounded px-2 py-1 bg-gray-700 hover:bg-gray-600" title="Next frame">
+                  ⏭
+                </button>
+                <select
+                  value={replay.speed}
+                  onChange={(e) => onControlReplay({ speed: parseFloat(e.target.value) })}
+                  className="rounded px-1 bg-gray-700"
+                >
+                  {REPLAY_SPEEDS.map(speed => (
+                    <option key={speed} value={speed}>{speed}×</option>
+                  ))}
+                </select>
+                <button onClick={onCloseReplay} className="rounded px-2 py-1 bg-gray-700 hover:bg-gray-600" title="Back to live audio">
+                  ×
+                </button>
+              </div>
+            </>
+          )}
+
+          {sessionError && <div className="text-red-400">{sessionError}</div>}
+        </div>
+
         <div className="flex justify-between">
           <span>Real Audio:</span>
           <span className={hasRealAudio ? 'text-green-400' : 'text-red-400'}>
@@ -75,6 +220,11 @@ export default function AudioDebugPanel({ audioData, hasRealAudio, isPlaying }:
           </span>
         </div>
 
+        <div className="flex justify-between">
+          <span>Frame Time:</span>
+          <span className="text-blue-400">{frameTimeRef.current.toFixed(1)}ms</span>
+        </div>
+
         <div className="flex justify-between">
           <span>Frequency Bins:</span>
           <span className="text-blue-400">{debugInfo.frequencyDataLength}</span>
@@ -98,6 +248,66 @@ export default function AudioDebugPanel({ audioData, hasRealAudio, isPlaying }:
               <span>Volume:</span>
               <span className="text-green-400">{Math.round(audioData.volume * 100)}%</span>
             </div>
+            {audioData.rawLevels && (
+              <div className="flex justify-between">
+                <span>Raw B/M/T:</span>
+                <span className="text-gray-400">
+                  {Math.round(audioData.rawLevels.bassLevel * 100)}/
+                  {Math.round(audioData.rawLevels.midLevel * 100)}/
+                  {Math.round(audioData.rawLevels.trebleLevel * 100)}%
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>RMS / Peak:</span>
+              <span className="text-green-400">
+                {(audioData.rms ?? 0).toFixed(2)} / {(audioData.peak ?? 0).toFixed(2)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Crest Factor:</span>
+              <span className="text-green-400">{(audioData.crestFactor ?? 0).toFixed(2)}</span>
+            </div>
+            {audioData.stereo && (
+              <>
+                <div className="flex justify-between">
+                  <span>Stereo Width:</span>
+                  <span className="text-purple-400">{Math.round(audioData.stereo.width * 100)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Balance (L/R):</span>
+                  <span className="text-purple-400">{audioData.stereo.balance.toFixed(2)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between">
+              <span>Section:</span>
+              <span className="text-orange-400">
+                {audioData.section
+                  ? `${audioData.section.current} (${Math.round(audioData.section.energy * 100)}%)`
+                  : '—'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Key:</span>
+              <span className="text-pink-400">
+                {audioData.key
+                  ? `${audioData.key.name} (${Math.round(audioData.key.confidence * 100)}%)`
+                  : '—'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Beat Pulse:</span>
+              <span className="text-pink-400">{Math.round((audioData.beatPulse || 0) * 100)}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Live BPM:</span>
+              <span className="text-blue-400">
+                {audioData.tempo
+                  ? `${Math.round(audioData.tempo.bpm)} (${Math.round(audioData.tempo.confidence * 100)}%)`
+                  : '—'}
+              </span>
+            </div>
           </>
         )}
 
@@ -106,15 +316,15 @@ export default function AudioDebugPanel({ audioData, hasRealAudio, isPlaying }:
         </div>
 
         {/* Frequency Visualization */}
-        {audioData?.frequencies && (
+        {audioData?.bands && (
           <div className="pt-2 border-t border-gray-700">
-            <div className="text-gray-400 mb-1">Frequency Spectrum:</div>
+            <div className="text-gray-400 mb-1">Perceptual Bands:</div>
             <div className="flex items-end gap-px h-8">
-              {Array.from(audioData.frequencies).slice(0, 32).map((value: number, i: number) => (
+              {Array.from(audioData.bands as Float32Array).map((value: number, i: number) => (
                 <div
                   key={i}
-                  className="bg-blue-400 w-1"
-                  style={{ height: `${(value / 255) * 100}%` }}
+                  className="bg-blue-400 flex-1"
+                  style={{ height: `${value * 100}%` }}
                 />
               ))}
             </div>
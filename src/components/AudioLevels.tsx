@@ -0,0 +1,41 @@
+'use client';
+
+import { useAudioFrame } from '@/hooks/useAudioFrame';
+import type { AudioFrameBus } from '@/lib/audioFrameBus';
+
+interface AudioLevelsProps {
+  audioFrames: AudioFrameBus;
+}
+
+// Level readouts for the settings panel, refreshed a few times a second on their own
+export default function AudioLevels({ audioFrames }: AudioLevelsProps) {
+  const levels = useAudioFrame(audioFrames, frame => frame && {
+    bass: Math.round(frame.bassLevel * 100),
+    mid: Math.round(frame.midLevel * 100),
+    treble: Math.round(frame.trebleLevel * 100),
+    volume: Math.round(frame.volume * 100),
+  });
+
+  if (!levels) return null;
+
+  return (
+    <>
+      <div className="flex justify-between">
+        <span className="text-gray-300">Bass</span>
+        <span className="text-red-400">{levels.bass}%</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-300">Mids</span>
+        <span className="text-yellow-400">{levels.mid}%</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-300">Treble</span>
+        <span className="text-blue-400">{levels.treble}%</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-300">Volume</span>
+        <span className="text-green-400">{levels.volume}%</span>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { AudioSourceInfo, InputDevice } from '@/lib/audioSources';
+import type { SpotifyDevice } from '@/lib/spotifyDevices';
+
+interface DevicePanelProps {
+  devices: SpotifyDevice[];
+  remoteMode: boolean;
+  audioSource: AudioSourceInfo | null;
+  inputDevices: InputDevice[];
+  onRefresh: () => void;
+  onTransfer: (deviceId: string) => Promise<boolean>;
+  onRemoteModeChange: (remote: boolean) => void;
+  onSelectInput: (id: string) => void;
+}
+
+const DEVICE_POLL_MS = 5000;
+
+const DEVICE_ICONS: Record<string, string> = {
+  computer: '💻',
+  smartphone: '📱',
+  tablet: '📱',
+  speaker: '🔊',
+  tv: '📺',
+  avr: '📻',
+  stb: '📺',
+  audiodongle: '🔌',
+  gameconsole: '🎮',
+  castaudio: '🔊',
+  castvideo: '📺',
+  automobile: '🚗',
+};
+
+// Spotify Connect picker: moves playback between devices, and in remote mode picks the
+// microphone or line-in the visuals listen through while another device plays
+export default function DevicePanel({
+  devices,
+  remoteMode,
+  audioSource,
+  inputDevices,
+  onRefresh,
+  onTransfer,
+  onRemoteModeChange,
+  onSelectInput,
+}: DevicePanelProps) {
+  const [transferring, setTransferring] = useState<string | null>(null);
+
+  // Devices come and go as apps open and close elsewhere, so the list is re-read while open
+  useEffect(() => {
+    onRefresh();
+    const interval = setInterval(onRefresh, DEVICE_POLL_MS);
+    return () => clearInterval(interval);
+  }, [onRefresh]);
+
+  const transfer = async (deviceId: string) => {
+    setTransferring(deviceId);
+    await onTransfer(deviceId);
+    setTransferring(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 320 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 320 }}
+      className="absolute top-20 right-6 w-80 bg-black/60 backdrop-blur-xl rounded-2xl border border-white/10 p-4 z-40"
+    >
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-white font-semibold">Devices</h3>
+        <button onClick={onRefresh} className="text-xs text-white/50 hover:text-white">Refresh</button>
+      </div>
+
+      {devices.length === 0 ? (
+        <p className="text-sm text-white/40 mb-3">No Spotify devices found - open Spotify on a device to see it here</p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {devices.map(device => (
+            <li key={device.id}>
+              <button
+                onClick={() => transfer(device.id)}
+                disabled={device.isActive || device.isRestricted || transferring !== null}
+                className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-white/10 disabled:hover:bg-transparent disabled:cursor-default"
+                title={device.isRestricted ? 'This device cannot be controlled from here' : undefined}
+              >
+                <span className="text-lg">{DEVICE_ICONS[device.type.toLowerCase()] ?? '🎵'}</span>
+                <div className="min-w-0 flex-1">
+                  <p className={`text-sm truncate ${device.isActive ? 'text-green-400' : 'text-white'}`}>
+                    {device.isThisDevice ? 'This browser' : device.name}
+                  </p>
+                  <p className="text-xs text-white/40">
+                    {transferring === device.id
+                      ? 'Transferring…'
+                      : device.isActive
+                        ? 'Playing'
+                        : device.isRestricted
+                          ? 'Restricted'
+                          : device.type}
+                  </p>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Remote mode - playback stays put and the visuals listen to the room */}
+      <div className="border-t border-white/10 pt-3 space-y-2 text-sm">
+        <label className="flex justify-between items-center gap-2 cursor-pointer">
+          <span className="text-gray-300">Visualize another device</span>
+          <input
+            type="checkbox"
+            checked={remoteMode}
+            onChange={(e) => onRemoteModeChange(e.target.checked)}
+            className="accent-purple-500"
+          />
+        </label>
+        <p className="text-xs text-white/40">
+          Leaves playback where it is and listens through a microphone or line-in instead of this tab.
+        </p>
+
+        {remoteMode && (
+          <div className="flex justify-between items-center gap-2">
+            <span className="text-gray-300">Listen via</span>
+            <select
+              value={audioSource?.kind === 'device' ? audioSource.id : ''}
+              onChange={(e) => onSelectInput(e.target.value)}
+              className={`bg-white/10 text-xs rounded px-2 py-1 max-w-40 ${audioSource?.kind === 'device' ? 'text-green-400' : 'text-yellow-400'}`}
+            >
+              {audioSource?.kind !== 'device' && <option value="" className="bg-gray-900">Choose an input</option>}
+              <option value="device:default" className="bg-gray-900">Default input</option>
+              {inputDevices.map(device => (
+                <option key={device.deviceId} value={`device:${device.deviceId}`} className="bg-gray-900">
+                  {device.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import type { AudioData } from '@/hooks/useSpotifyPlayer';
+import type { AudioFrameBus } from '@/lib/audioFrameBus';
 
 interface VisualDNA {
   primaryColor: string;
@@ -14,16 +16,8 @@ interface VisualDNA {
   brightness: number;
 }
 
-interface AudioData {
-  frequencies: Uint8Array;
-  volume: number;
-  bassLevel: number;
-  midLevel: number;
-  trebleLevel: number;
-}
-
 interface GenerativeVisualizerProps {
-  audioData: AudioData | null;
+  audioFrames: AudioFrameBus;
   visualDNA: VisualDNA;
   width: number;
   height: number;
@@ -56,7 +50,8 @@ class GenerativeArtSystem {
     }
   }
 
-  public render(audioData: AudioData | null) {
+  // `fresh` is false when the frame was already rendered, so its one-shot events are skipped
+  public render(audioData: AudioData | null, fresh = true) {
     this.time += 0.016; // ~60fps
     
     // Clear with dynamic background
@@ -64,7 +59,8 @@ class GenerativeArtSystem {
     this.ctx.fillStyle = `rgba(0, 0, 0, ${bgAlpha})`;
     this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
-    // Update and render particles
+    // Update and render particles, dropping burst particles that have faded out
+    this.particles = this.particles.filter(particle => !particle.isDead());
     this.particles.forEach(particle => {
       particle.update(audioData, this.time, this.canvas.width, this.canvas.height);
       particle.render(this.ctx);
@@ -72,23 +68,23 @@ class GenerativeArtSystem {
 
     // Add generative effects based on audio
     if (audioData) {
-      this.renderAudioReactiveEffects(audioData);
+      this.renderAudioReactiveEffects(audioData, fresh);
     }
   }
 
-  private renderAudioReactiveEffects(audioData: AudioData) {
-    const { frequencies, bassLevel, midLevel, trebleLevel } = audioData;
+  private renderAudioReactiveEffects(audioData: AudioData, fresh: boolean) {
+    const { bassLevel, trebleLevel, onset, beatPulse, section } = audioData;
     
-    // Bass-driven background pulses
-    if (bassLevel > 0.6) {
+    // Beat-driven background pulses
+    if (beatPulse > 0.05) {
       this.ctx.save();
-      this.ctx.globalAlpha = (bassLevel - 0.6) * 0.5;
+      this.ctx.globalAlpha = beatPulse * 0.3;
       this.ctx.fillStyle = this.visualDNA.primaryColor;
       this.ctx.beginPath();
       this.ctx.arc(
         this.canvas.width / 2,
         this.canvas.height / 2,
-        bassLevel * 200,
+        100 + bassLevel * 150 + beatPulse * 100,
         0,
         Math.PI * 2
       );
@@ -96,9 +92,10 @@ class GenerativeArtSystem {
       this.ctx.restore();
     }
 
-    // Mid-frequency particle spawning
-    if (midLevel > 0.7) {
-      for (let i = 0; i < 3; i++) {
+    // Onset-driven particle spawning (snares, hats and other transients)
+    if (onset && fresh) {
+      const burstCount = 1 + Math.round(onset.strength * 4);
+      for (let i = 0; i < burstCount; i++) {
         this.particles.push(new Particle(
           Math.random() * this.canvas.width,
           Math.random() * this.canvas.height,
@@ -108,6 +105,19 @@ class GenerativeArtSystem {
       }
     }
 
+    // A drop bursts a ring of particles out of the centre
+    if (fresh && section?.event?.type === 'drop') {
+      const burstCount = 30 + Math.round(section.event.intensity * 30);
+      for (let i = 0; i < burstCount; i++) {
+        this.particles.push(new Particle(
+          this.canvas.width / 2,
+          this.canvas.height / 2,
+          this.visualDNA,
+          true
+        ));
+      }
+    }
+
     // Treble-driven lightning effects
     if (trebleLevel > 0.8) {
       this.renderLightning(trebleLevel);
@@ -175,8 +185,8 @@ class Particle {
     
     if (audioData) {
       // Audio-reactive movement
-      const frequencyIndex = Math.floor((this.x / canvasWidth) * audioData.frequencies.length);
-      const frequency = audioData.frequencies[frequencyIndex] / 255;
+      const bandIndex = Math.min(audioData.bands.length - 1, Math.floor((this.x / canvasWidth) * audioData.bands.length));
+      const frequency = audioData.bands[bandIndex] || 0;
       
       this.vx += (Math.random() - 0.5) * frequency * 0.1;
       this.vy += (Math.random() - 0.5) * frequency * 0.1;
@@ -301,7 +311,7 @@ class Particle {
   }
 }
 
-export default function GenerativeVisualizer({ audioData, visualDNA, width, height }: GenerativeVisualizerProps) {
+export default function GenerativeVisualizer({ audioFrames, visualDNA, width, height }: GenerativeVisualizerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const artSystemRef = useRef<GenerativeArtSystem | null>(null);
   const animationRef = useRef<number | undefined>(undefined);
@@ -315,9 +325,15 @@ export default function GenerativeVisualizer({ audioData, visualDNA, width, heig
 
     artSystemRef.current = new GenerativeArtSystem(canvas, visualDNA);
 
+    // rAF outruns the analysis (and a paused replay publishes nothing), so the same frame
+    // is often read more than once
+    let renderedSequence = -1;
     const animate = () => {
       if (artSystemRef.current) {
-        artSystemRef.current.render(audioData);
+        // Latest frame straight from the bus, so new frames never restart this loop
+        const fresh = audioFrames.sequence !== renderedSequence;
+        renderedSequence = audioFrames.sequence;
+        artSystemRef.current.render(audioFrames.getFrame(), fresh);
       }
       animationRef.current = requestAnimationFrame(animate);
     };
@@ -329,7 +345,7 @@ export default function GenerativeVisualizer({ audioData, visualDNA, width, heig
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [width, height]);
+  }, [audioFrames, width, height]);
 
   useEffect(() => {
     if (artSystemRef.current) {
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { LATENCY_LIMIT_MS, clampLatency, type OutputDevice } from '@/lib/latencyCalibration';
+
+interface LatencyCalibrationProps {
+  offset: number;
+  device: OutputDevice | null;
+  onChange: (offset: number) => void;
+  onClose: () => void;
+}
+
+const CLICK_INTERVAL = 600; // ms, 100 BPM
+const SCHEDULE_AHEAD = 0.1; // s of clicks queued on the audio clock
+const MAX_TAPS = 8;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Plays a click track and flashes in time with it, shifted by the offset. Once the flash
+// lands on the click the visualizer's beats will land on what the user hears.
+export default function LatencyCalibration({ offset, device, onChange, onClose }: LatencyCalibrationProps) {
+  const [running, setRunning] = useState(false);
+  const [taps, setTaps] = useState<number[]>([]);
+  const contextRef = useRef<AudioContext | null>(null);
+  const clicksRef = useRef<number[]>([]); // performance.now() times the clicks leave the graph
+  const flashRef = useRef<HTMLDivElement>(null);
+  const offsetRef = useRef(offset);
+  offsetRef.current = offset;
+
+  const stop = () => {
+    contextRef.current?.close();
+    contextRef.current = null;
+    clicksRef.current = [];
+    setRunning(false);
+  };
+
+  // Needs the click as a user gesture to start audio
+  const start = async () => {
+    const context = new AudioContext();
+    await context.resume();
+    contextRef.current = context;
+    setTaps([]);
+    setRunning(true);
+  };
+
+  useEffect(() => stop, []);
+
+  // Clicks are scheduled on the audio clock so timer jitter can't move them
+  useEffect(() => {
+    const context = contextRef.current;
+    if (!running || !context) return;
+
+    let nextClick = context.currentTime + 0.2;
+    let count = 0;
+
+    const schedule = () => {
+      while (nextClick < context.currentTime + SCHEDULE_AHEAD) {
+        const oscillator = context.createOscillator();
+        const envelope = context.createGain();
+        oscillator.frequency.value = count % 4 === 0 ? 1500 : 1000;
+        envelope.gain.setValueAtTime(0.5, nextClick);
+        envelope.gain.exponentialRampToValueAtTime(0.001, nextClick + 0.03);
+        oscillator.connect(envelope).connect(context.destination);
+        oscillator.start(nextClick);
+        oscillator.stop(nextClick + 0.04);
+
+        clicksRef.current.push(performance.now() + (nextClick - context.currentTime) * 1000);
+        if (clicksRef.current.length > 16) clicksRef.current.shift();
+        nextClick += CLICK_INTERVAL / 1000;
+        count++;
+      }
+    };
+
+    let frame = 0;
+    const draw = () => {
+      const now = performance.now();
+      const shown = clicksRef.current.filter(click => click + offsetRef.current <= now);
+      const since = shown.length ? now - (shown[shown.length - 1] + offsetRef.current) : Infinity;
+      if (flashRef.current) flashRef.current.style.opacity = String(Math.exp(-since / 80));
+      frame = requestAnimationFrame(draw);
+    };
+
+    schedule();
+    const timer = setInterval(schedule, 25);
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      clearInterval(timer);
+      cancelAnimationFrame(frame);
+    };
+  }, [running]);
+
+  // How far each tap lands after its nearest click is how late the sound arrives; early taps
+  // give a negative offset. Clicks are only queued a moment ahead, so taps are matched against
+  // the click grid rather than just the clicks scheduled so far.
+  const tap = () => {
+    const clicks = clicksRef.current;
+    if (clicks.length === 0) return;
+    const now = performance.now();
+    const last = clicks[clicks.length - 1];
+    const nearest = last + Math.round((now - last) / CLICK_INTERVAL) * CLICK_INTERVAL;
+    setTaps(prev => [...prev, now - nearest].slice(-MAX_TAPS));
+  };
+
+  useEffect(() => {
+    if (!running) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.repeat) return;
+      event.preventDefault();
+      tap();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [running]);
+
+  const tapped = taps.length >= 4 ? clampLatency(median(taps)) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-md bg-gray-900/95 rounded-2xl p-6 border border-white/10 text-white"
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="font-semibold">Latency Calibration</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-300">×</button>
+        </div>
+        <p className="text-gray-400 text-sm mb-4">
+          Nudge the offset until the flash lands on the click, or tap along with space or the pad.
+          Saved for {device?.label ?? 'this output'}.
+        </p>
+
+        {/* Flash - also the tap pad */}
+        <button
+          onPointerDown={running ? tap : start}
+          className="relative w-full h-32 rounded-xl bg-white/5 border border-white/10 overflow-hidden mb-4"
+        >
+          <div ref={flashRef} className="absolute inset-0 bg-purple-400" style={{ opacity: 0 }} />
+          <span className="relative text-sm text-white/70">
+            {running ? 'Tap on each click' : 'Start click track'}
+          </span>
+        </button>
+
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-gray-300 text-sm w-14">Offset</span>
+          <input
+            type="range"
+            min={-LATENCY_LIMIT_MS}
+            max={LATENCY_LIMIT_MS}
+            step="1"
+            value={offset}
+            onChange={(e) => onChange(parseInt(e.target.value))}
+            className="flex-1 h-1 bg-white/20 rounded-lg appearance-none slider"
+          />
+          <span className="text-purple-400 text-sm w-16 text-right tabular-nums">
+            {offset > 0 ? '+' : ''}{offset}ms
+          </span>
+        </div>
+        <div className="flex gap-1 mb-4">
+          {[-10, -1, 1, 10].map(step => (
+            <button
+              key={step}
+              onClick={() => onChange(offset + step)}
+              className="flex-1 rounded px-2 py-1 text-xs bg-white/10 hover:bg-white/20"
+            >
+              {step > 0 ? '+' : ''}{step}
+            </button>
+          ))}
+          <button onClick={() => onChange(0)} className="flex-1 rounded px-2 py-1 text-xs bg-white/10 hover:bg-white/20">
+            Reset
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-400">
+            {taps.length === 0
+              ? 'No taps yet'
+              : tapped === null
+                ? `${taps.length} taps - keep going`
+                : `Taps suggest ${tapped > 0 ? '+' : ''}${tapped}ms`}
+          </span>
+          <div className="flex gap-2">
+            {tapped !== null && (
+              <button
+                onClick={() => onChange(tapped)}
+                className="rounded px-3 py-1 bg-purple-600 hover:bg-purple-500"
+              >
+                Use
+              </button>
+            )}
+            {running && (
+              <button onClick={stop} className="rounded px-3 py-1 bg-white/10 hover:bg-white/20">
+                Stop
+              </button>
+            )}
+          </div>
+        </div>
+
+        <p className="text-gray-500 text-xs mt-4">
+          Positive delays the visuals (Bluetooth); negative fires beats early (tab capture buffering).
+        </p>
+      </motion.div>
+    </div>
+  );
+}
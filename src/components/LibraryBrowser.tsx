@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import Image from 'next/image';
+import Artwork from './Artwork';
+import type { PlayTarget } from '@/hooks/useSpotifyPlayer';
+import { usePagedList } from '@/hooks/usePagedList';
+import {
+  LIKED_TRACKS_PATH,
+  PLAYLISTS_PATH,
+  SAVED_ALBUMS_PATH,
+  collectionTracksPath,
+  fetchAlbumTracks,
+  fetchPlaylists,
+  fetchSavedAlbums,
+  fetchSavedTracks,
+  type LibraryCollection,
+  type LibraryTrack,
+} from '@/lib/spotifyLibrary';
+
+interface LibraryBrowserProps {
+  onPlay: (target: PlayTarget) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type LibrarySection = 'playlists' | 'albums' | 'liked';
+
+const SECTIONS: Array<{ section: LibrarySection; label: string }> = [
+  { section: 'playlists', label: 'Playlists' },
+  { section: 'albums', label: 'Albums' },
+  { section: 'liked', label: 'Liked Songs' },
+];
+
+// Liked songs have no context URI, so they play as an explicit list from the chosen track
+const LIKED_PLAY_LIMIT = 100;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// Asks for the next page whenever it scrolls into view; remounting the observer on each new
+// callback re-checks visibility, so a short page that leaves it on screen keeps loading
+function ScrollSentinel({ onVisible }: { onVisible: () => void }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onVisible();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onVisible]);
+
+  return <div ref={ref} className="h-px" />;
+}
+
+function ListStatus({ loading, error, empty, onRetry }: { loading: boolean; error: string | null; empty: boolean; onRetry: () => void }) {
+  if (error) {
+    return (
+      <p className="text-sm text-red-400 py-3">
+        {error} · <button onClick={onRetry} className="underline hover:text-red-300">Retry</button>
+      </p>
+    );
+  }
+  if (loading) return <p className="text-sm text-white/50 py-3">Loading…</p>;
+  if (empty) return <p className="text-sm text-white/50 py-3">Nothing here yet</p>;
+  return null;
+}
+
+// Playlists, saved albums and liked songs, paged in as the lists scroll. Anything started
+// here plays on this tab's SDK device.
+export default function LibraryBrowser({ onPlay, onClose }: LibraryBrowserProps) {
+  const [section, setSection] = useState<LibrarySection>('playlists');
+  const [openCollection, setOpenCollection] = useState<LibraryCollection | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const collections = usePagedList(
+    section === 'liked' ? null : section === 'playlists' ? PLAYLISTS_PATH : SAVED_ALBUMS_PATH,
+    section === 'playlists' ? fetchPlaylists : fetchSavedAlbums
+  );
+  const tracks = usePagedList(
+    openCollection ? collectionTracksPath(openCollection) : section === 'liked' ? LIKED_TRACKS_PATH : null,
+    openCollection?.type === 'album' ? fetchAlbumTracks : fetchSavedTracks
+  );
+
+  // Escape backs out of an open collection before closing the browser
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      if (openCollection) setOpenCollection(null);
+      else onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [openCollection, onClose]);
+
+  const play = async (target: PlayTarget) => {
+    setStatus(null);
+    if (await onPlay(target)) onClose();
+    else setStatus('Could not start playback');
+  };
+
+  const playTrack = (track: LibraryTrack, index: number) => {
+    if (openCollection) {
+      play({ contextUri: openCollection.uri, offsetUri: track.uri });
+    } else {
+      play({ uris: tracks.items.slice(index, index + LIKED_PLAY_LIMIT).map(item => item.uri) });
+    }
+  };
+
+  const showTracks = section === 'liked' || openCollection !== null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col"
+    >
+      <div className="max-w-5xl w-full mx-auto p-6 flex flex-col min-h-0 flex-1">
+        <div className="flex items-center gap-2 mb-4">
+          <h2 className="text-white text-xl font-semibold mr-4">Library</h2>
+          {SECTIONS.map(({ section: value, label }) => (
+            <button
+              key={value}
+              onClick={() => {
+                setSection(value);
+                setOpenCollection(null);
+              }}
+              className={`px-3 py-1 rounded-full text-sm transition-all ${section === value
+                ? 'bg-white/20 text-white'
+                : 'text-white/60 hover:text-white hover:bg-white/10'
+                }`}
+            >
+              {label}
+            </button>
+          ))}
+          <button onClick={onClose} className="ml-auto text-white/50 hover:text-white text-2xl px-2" title="Close (Esc)">×</button>
+        </div>
+
+        {status && <p className="text-sm text-red-400 mb-3">{status}</p>}
+
+        {openCollection && (
+          <div className="flex items-center gap-4 mb-4">
+            <button
+              onClick={() => setOpenCollection(null)}
+              className="text-white/50 hover:text-white text-sm"
+              title="Back (Esc)"
+            >
+              ← Back
+            </button>
+            <Artwork src={openCollection.image} alt={openCollection.name} size={56} />
+            <div className="min-w-0 flex-1">
+              <p className="text-white font-medium truncate">{openCollection.name}</p>
+              <p className="text-sm text-white/50 truncate">
+                {openCollection.subtitle} · {openCollection.trackCount} tracks
+              </p>
+            </div>
+            <button
+              onClick={() => play({ contextUri: openCollection.uri })}
+              className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-full text-sm font-medium"
+            >
+              Play
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          {showTracks ? (
+            <>
+              <ul className="space-y-1">
+                {tracks.items.map((track, index) => (
+                  // Playlists can hold the same track more than once
+                  <li key={`${track.id}-${index}`}>
+                    <button
+                      onClick={() => playTrack(track, index)}
+                      className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-white/10 group"
+                    >
+                      <span className="w-6 text-right text-xs text-white/40 tabular-nums group-hover:text-green-400">
+                        {index + 1}
+                      </span>
+                      <Artwork src={track.image ?? openCollection?.image} alt={track.album} size={40} />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-white truncate">{track.name}</p>
+                        <p className="text-xs text-white/50 truncate">{track.artists.join(', ')}</p>
+                      </div>
+                      <span className="text-xs text-white/40 tabular-nums">{formatDuration(track.duration)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <ListStatus
+                loading={tracks.loading}
+                error={tracks.error}
+                empty={tracks.items.length === 0}
+                onRetry={tracks.retry}
+              />
+              {tracks.hasMore && <ScrollSentinel onVisible={tracks.loadMore} />}
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                {collections.items.map(collection => (
+                  <button
+                    key={collection.id}
+                    onClick={() => setOpenCollection(collection)}
+                    className="text-left p-2 rounded-xl hover:bg-white/10 transition-colors"
+                  >
+                    <div className="relative aspect-square mb-2 rounded-lg overflow-hidden bg-white/10">
+                      {collection.image && (
+                        <Image src={collection.image} alt={collection.name} fill sizes="200px" className="object-cover" />
+                      )}
+                    </div>
+                    <p className="text-sm text-white truncate">{collection.name}</p>
+                    <p className="text-xs text-white/50 truncate">{collection.subtitle}</p>
+                  </button>
+                ))}
+              </div>
+              <ListStatus
+                loading={collections.loading}
+                error={collections.error}
+                empty={collections.items.length === 0}
+                onRetry={collections.retry}
+              />
+              {collections.hasMore && <ScrollSentinel onVisible={collections.loadMore} />}
+            </>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
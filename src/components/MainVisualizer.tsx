@@ -1,11 +1,26 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useSpotifyPlayer } from '@/hooks/useSpotifyPlayer';
+import { useSpotifyPlayer, type PlayerOptions, type RepeatMode } from '@/hooks/useSpotifyPlayer';
+import { useAudioFrame } from '@/hooks/useAudioFrame';
 import GenerativeVisualizer from './GenerativeVisualizer';
+import MediaSeekBar from './MediaSeekBar';
+import TrackProgress from './TrackProgress';
+import AudioLevels from './AudioLevels';
 import AudioSetupGuide from './AudioSetupGuide';
 import AudioDebugPanel from './AudioDebugPanel';
+import LatencyCalibration from './LatencyCalibration';
+import QueuePanel from './QueuePanel';
+import SearchOverlay from './SearchOverlay';
+import LibraryBrowser from './LibraryBrowser';
+import DevicePanel from './DevicePanel';
+import { TEMPO_CONFIDENCE_THRESHOLD } from '@/lib/tempoTracker';
+import { FFT_SIZE_OPTIONS, type BandScale } from '@/lib/bandMapper';
+import { KEY_CONFIDENCE_THRESHOLD } from '@/lib/keyDetector';
+import { getKeyPalette } from '@/lib/keyPalette';
+import type { SectionEvent } from '@/lib/sectionTracker';
+import { downloadSession, parseSession } from '@/lib/sessionRecording';
 
 interface TrackInfo {
   energy?: number;
@@ -28,36 +43,165 @@ interface TrackInfo {
   };
 }
 
-export default function MainVisualizer() {
+type VisualMode = 'generative' | 'kaleidoscope' | 'neural' | 'plasma' | 'fractal' | 'liquid' | 'waveform';
+
+const VISUAL_MODES: Array<{ mode: VisualMode; icon: string; label: string }> = [
+  { mode: 'generative', icon: '🧬', label: 'AI Visual DNA' },
+  { mode: 'kaleidoscope', icon: '🔮', label: 'Kaleidoscope' },
+  { mode: 'neural', icon: '🧠', label: 'Neural Network' },
+  { mode: 'plasma', icon: '⚡', label: 'Plasma Field' },
+  { mode: 'fractal', icon: '🌿', label: 'Fractal Tree' },
+  { mode: 'liquid', icon: '💧', label: 'Liquid Flow' },
+  { mode: 'waveform', icon: '〰️', label: 'Waveform Ring' },
+];
+
+// How long the canvas flash after a drop lasts
+const SECTION_FLASH_MS = 800;
+
+// Repeat button cycles the way Spotify's does
+const NEXT_REPEAT: Record<RepeatMode, RepeatMode> = { off: 'context', context: 'track', track: 'off' };
+
+// Without a media element this visualises Spotify; with one it plays and analyses that element
+export default function MainVisualizer({ mediaElement, localTrack }: PlayerOptions = {}) {
   const {
     currentTrack,
-    audioData,
+    audioFrames,
     isPlaying,
     volume,
     togglePlayback,
     setVolume,
     skipToNext,
     skipToPrevious,
+    seek,
+    setShuffle,
+    setRepeat,
+    playbackModes,
+    devices,
+    remoteMode,
+    refreshDevices,
+    transferPlayback,
+    setRemoteMode,
+    getPlaybackPosition,
+    getPlaybackDuration,
+    queue,
+    refreshQueue,
+    addToQueue,
+    playOnDevice,
     hasRealAudio,
     error,
     needsUserInteraction,
     audioContextReady,
     activateAudio,
-  } = useSpotifyPlayer();
+    analyserSettings,
+    updateAnalyserSettings,
+    subscribeToSections,
+    trackAnalysis,
+    audioSource,
+    inputDevices,
+    selectAudioSource,
+    latencyOffset,
+    outputDevice,
+    setLatencyOffset,
+    recording,
+    replay,
+    getReplayStatus,
+    startRecording,
+    stopRecording,
+    loadReplay,
+    controlReplay,
+    closeReplay,
+  } = useSpotifyPlayer({ mediaElement, localTrack });
 
   const [trackInfo, setTrackInfo] = useState<TrackInfo | null>(null);
-  const [visualMode, setVisualMode] = useState<'generative' | 'kaleidoscope' | 'neural' | 'plasma' | 'fractal' | 'liquid'>('generative');
+  const [visualMode, setVisualMode] = useState<VisualMode>('generative');
   const [showSettings, setShowSettings] = useState(false);
+  const [keyColors, setKeyColors] = useState(true);
+  const [switchOnDrops, setSwitchOnDrops] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceFileRef = useRef<HTMLInputElement>(null);
   const animationRef = useRef<number | undefined>(undefined);
+  const sectionEventRef = useRef<SectionEvent | null>(null);
+  const sectionEventAtRef = useRef(0);
+
+  // Frames never pass through React state; the canvases read the bus (one instance for the
+  // component's life) in their loops and the panels only re-render when these readings change
+  const audioFramesRef = useRef(audioFrames);
+  const liveKey = useAudioFrame(audioFrames, frame => {
+    const key = frame?.key;
+    return key && key.confidence >= KEY_CONFIDENCE_THRESHOLD ? { tonic: key.tonic, mode: key.mode, name: key.name } : null;
+  });
+  const liveTempo = useAudioFrame(audioFrames, frame => {
+    const tempo = frame?.tempo;
+    return tempo && tempo.confidence >= TEMPO_CONFIDENCE_THRESHOLD ? Math.round(tempo.bpm) : null;
+  });
+  const liveSection = useAudioFrame(audioFrames, frame => frame?.section?.current ?? null);
+
+  // A confident live key overrides the AI colours so the palette follows the harmony
+  const liveKeyTonic = liveKey?.tonic;
+  const liveKeyMode = liveKey?.mode;
+  const visualDNA = useMemo(() => {
+    const baseDNA = trackInfo?.visualDNA;
+    if (!baseDNA || !keyColors || liveKeyTonic === undefined || !liveKeyMode) return baseDNA;
+    return { ...baseDNA, ...getKeyPalette({ tonic: liveKeyTonic, mode: liveKeyMode }) };
+  }, [trackInfo?.visualDNA, keyColors, liveKeyTonic, liveKeyMode]);
+
+  // Section boundaries drive the big changes: a flash on every drop, and optionally a new mode
+  useEffect(() => {
+    return subscribeToSections(event => {
+      sectionEventRef.current = event;
+      sectionEventAtRef.current = performance.now();
+
+      if (event.type === 'drop' && switchOnDrops) {
+        setVisualMode(current => {
+          const index = VISUAL_MODES.findIndex(({ mode }) => mode === current);
+          return VISUAL_MODES[(index + 1) % VISUAL_MODES.length].mode;
+        });
+      }
+    });
+  }, [subscribeToSections, switchOnDrops]);
 
-  // Get enhanced track info when track changes
+  // Q toggles the queue, / opens search and L the library, so all can be reached in fullscreen
   useEffect(() => {
-    if (currentTrack) {
-      getTrackInfo(currentTrack);
+    if (mediaElement) return;
+
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.metaKey || event.ctrlKey || event.altKey || target?.closest('input, textarea, select')) return;
+
+      if (event.key.toLowerCase() === 'q') {
+        setShowQueue(open => !open);
+        setShowSettings(false);
+        setShowDevices(false);
+      } else if (event.key === '/') {
+        event.preventDefault();
+        setShowSearch(true);
+      } else if (event.key.toLowerCase() === 'l') {
+        setShowLibrary(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [mediaElement]);
+
+  // Get enhanced track info when track changes, not on every position update; the name is
+  // part of the key because local files are renamed once their tags have been read
+  const trackKey = currentTrack ? `${currentTrack.id}|${currentTrack.name}` : null;
+  const currentTrackRef = useRef(currentTrack);
+  currentTrackRef.current = currentTrack;
+  // Set while a loaded recording supplies its own track info
+  const replayInfoRef = useRef(false);
+  useEffect(() => {
+    if (currentTrackRef.current && !replayInfoRef.current) {
+      getTrackInfo(currentTrackRef.current);
     }
-  }, [currentTrack]);
+  }, [trackKey]);
 
   // Get track info with AI enhancement
   const getTrackInfo = async (track: any) => {
@@ -66,9 +210,12 @@ export default function MainVisualizer() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          trackId: track.id,
           trackName: track.name,
           artists: track.artists.join(', '),
-          album: track.album
+          primaryArtist: track.artists[0],
+          album: track.album,
+          isrc: track.isrc
         }),
       });
 
@@ -82,6 +229,29 @@ export default function MainVisualizer() {
   };
   // Removed unused functions that referenced undefined 'player' variable
 
+  // Recordings carry the track info and Visual DNA so a replay looks exactly like the original
+  const handleStopRecording = async () => {
+    const session = stopRecording();
+    if (!session) return;
+    try {
+      await downloadSession({ ...session, trackInfo });
+    } catch (error) {
+      console.error('Failed to save recording:', error);
+    }
+  };
+
+  const handleLoadRecording = async (file: File) => {
+    const session = await parseSession(file);
+    replayInfoRef.current = !!session.trackInfo;
+    if (session.trackInfo) setTrackInfo(session.trackInfo as TrackInfo);
+    loadReplay(session);
+  };
+
+  const handleCloseReplay = () => {
+    replayInfoRef.current = false;
+    closeReplay();
+  };
+
   // Always animate (not just when playing)
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -105,27 +275,33 @@ export default function MainVisualizer() {
 
       // Generate audio data
       const audioData = generateAudioData();
+      const pulse = getBeatPulse();
 
       // Draw visualization
       // Only draw canvas-based visualizations for non-generative modes
       if (visualMode !== 'generative') {
         switch (visualMode) {
           case 'kaleidoscope':
-            drawKaleidoscope(ctx, canvas, audioData);
+            drawKaleidoscope(ctx, canvas, audioData, pulse);
             break;
           case 'neural':
-            drawNeural(ctx, canvas, audioData);
+            drawNeural(ctx, canvas, audioData, pulse);
             break;
           case 'plasma':
-            drawPlasma(ctx, canvas, audioData);
+            drawPlasma(ctx, canvas, audioData, pulse);
             break;
           case 'fractal':
-            drawFractal(ctx, canvas, audioData);
+            drawFractal(ctx, canvas, audioData, pulse);
             break;
           case 'liquid':
-            drawLiquid(ctx, canvas, audioData);
+            drawLiquid(ctx, canvas, audioData, pulse);
+            break;
+          case 'waveform':
+            drawWaveform(ctx, canvas, getWaveform(), pulse);
             break;
         }
+
+        drawSectionFlash(ctx, canvas);
       }
 
       animationRef.current = requestAnimationFrame(animate);
@@ -141,64 +317,38 @@ export default function MainVisualizer() {
     };
   }, [visualMode, trackInfo, isPlaying]);
 
-  // Generate reactive audio data - use real data if available, otherwise simulate
-  const generateAudioData = (): number[] => {
-    // If we have real audio data, use it directly
-    if (audioData && audioData.frequencies && hasRealAudio) {
-      // Convert Uint8Array to normalized number array (0-1)
-      return Array.from(audioData.frequencies, (value) => value / 255);
+  // Live tempo from the analyser replaces the AI guess once the tracker is confident
+  const getEffectiveTempo = (): { bpm: number | undefined; isLive: boolean } => {
+    if (liveTempo !== null) {
+      return { bpm: liveTempo, isLive: true };
     }
+    return { bpm: trackInfo?.tempo, isLive: false };
+  };
 
-    // Fallback to simulated data
-    const time = Date.now() * 0.001;
-    const progress = Math.max(0, Math.min(1, currentTrack ? (currentTrack.progress_ms / currentTrack.duration_ms) : 0));
-    const energy = Math.max(0, Math.min(1, trackInfo?.energy || 0.7));
-    const tempo = Math.max(60, Math.min(200, trackInfo?.tempo || 120));
-    const danceability = Math.max(0, Math.min(1, trackInfo?.danceability || 0.7));
-
-    // More reactive beat detection
-    const beatPhase = (time * tempo / 60) % 1;
-    const beatIntensity = Math.pow(Math.sin(beatPhase * Math.PI), 3) * energy;
-    const subBeat = Math.sin(time * tempo / 15) * 0.3;
-
-    // Playing state affects intensity dramatically
-    const playingMultiplier = isPlaying ? (1 + beatIntensity * 0.5) : 0.1;
-
-    return Array.from({ length: 128 }, (_, i) => {
-      const freq = i / 128;
-
-      // Create frequency-specific responses
-      let value = 0;
-
-      // Bass (low frequencies)
-      if (freq < 0.3) {
-        value = Math.sin(time * 2 + freq * 6) * energy * 0.8 + beatIntensity * 0.9;
-      }
-      // Mids
-      else if (freq < 0.7) {
-        value = Math.sin(time * 3 + freq * 10) * danceability * 0.6 + subBeat;
-      }
-      // Highs
-      else {
-        value = Math.sin(time * 4 + freq * 15) * energy * 0.4 + Math.random() * 0.2;
-      }
-
-      // Add progress-based modulation
-      value += Math.sin(time * 1.5 + freq * 8) * progress * 0.4;
+  // Beat envelope for the canvas modes - detected beats on real audio, the seeded simulator's otherwise
+  const getBeatPulse = (): number => audioFramesRef.current.getFrame()?.beatPulse ?? 0;
 
-      // Add beat synchronization
-      value *= (0.7 + beatIntensity * 0.6) * playingMultiplier;
+  const getWaveform = () => audioFramesRef.current.getFrame()?.waveform;
 
-      // Ensure valid range
-      return Math.max(0, Math.min(1, isFinite(value) ? Math.abs(value) : 0.3));
-    });
+  // Perceptual bands so every mode spreads evenly across the spectrum; the hook fills them from
+  // the simulator when there is no real audio, so both paths look the same here
+  const generateAudioData = (): number[] => {
+    const latest = audioFramesRef.current.getFrame();
+    return latest ? Array.from(latest.bands) : [];
   };
 
   // Cool visualization functions
-  const drawKaleidoscope = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[]) => {
+  const drawKaleidoscope = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[], pulse: number) => {
     const centerX = canvas.width / 2;
     const centerY = canvas.height / 2;
     const time = Date.now() * 0.001;
+    const stereo = audioFramesRef.current.getFrame()?.stereo;
+
+    // Each mirrored half follows its own channel when per-channel bands line up with the data
+    const channelBands = (bands: Float32Array | undefined) => (bands && bands.length === data.length ? bands : null);
+    const leftBands = channelBands(stereo?.left.bands);
+    const rightBands = channelBands(stereo?.right.bands);
+    const spread = 1 + (stereo?.width ?? 0) * 0.6;
 
     // Create kaleidoscope effect with multiple symmetrical patterns
     for (let segment = 0; segment < 8; segment++) {
@@ -209,22 +359,20 @@ export default function MainVisualizer() {
       data.forEach((amplitude, i) => {
         const safeAmplitude = Math.max(0, Math.min(1, amplitude || 0));
         const angle = (i / data.length) * Math.PI + time * 0.5;
-        const radius = 50 + safeAmplitude * 200;
-        const x = Math.cos(angle) * radius;
-        const y = Math.sin(angle) * radius * 0.5; // Flatten for kaleidoscope effect
-
-        if (!isFinite(x) || !isFinite(y)) return;
-
-        const size = Math.max(2, safeAmplitude * 20);
         const hue = (i * 8 + time * 100 + segment * 45) % 360;
 
-        // Create mirrored effect
+        // Create mirrored effect - wider stereo pushes the halves apart
         [-1, 1].forEach(mirror => {
-          const finalX = x * mirror;
-          const finalY = y;
+          const bands = mirror < 0 ? leftBands : rightBands;
+          const channelAmplitude = bands ? Math.max(0, Math.min(1, bands[i] || 0)) : safeAmplitude;
+          const radius = (50 + channelAmplitude * 200) * (1 + pulse * 0.3);
+          const finalX = Math.cos(angle) * radius * mirror * spread;
+          const finalY = Math.sin(angle) * radius * 0.5; // Flatten for kaleidoscope effect
+          const size = Math.max(2, channelAmplitude * 20);
+          if (!isFinite(finalX) || !isFinite(finalY)) return;
 
           const gradient = ctx.createRadialGradient(finalX, finalY, 0, finalX, finalY, size * 2);
-          gradient.addColorStop(0, `hsla(${hue}, 90%, 70%, ${safeAmplitude * 0.8})`);
+          gradient.addColorStop(0, `hsla(${hue}, 90%, 70%, ${channelAmplitude * 0.8})`);
           gradient.addColorStop(1, `hsla(${hue}, 90%, 70%, 0)`);
 
           ctx.fillStyle = gradient;
@@ -238,7 +386,7 @@ export default function MainVisualizer() {
     }
   };
 
-  const drawNeural = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[]) => {
+  const drawNeural = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[], beatPulse: number) => {
     const time = Date.now() * 0.001;
     const nodes: Array<{ x: number, y: number, amplitude: number }> = [];
 
@@ -276,7 +424,7 @@ export default function MainVisualizer() {
     nodes.forEach((node, i) => {
       if (node.amplitude < 0.1) return;
 
-      const size = Math.max(2, node.amplitude * 15);
+      const size = Math.max(2, node.amplitude * 15 * (1 + beatPulse * 0.5));
       const hue = (i * 15 + time * 80) % 360;
       const pulse = Math.sin(time * 5 + i * 0.5) * 0.3 + 0.7;
 
@@ -291,7 +439,7 @@ export default function MainVisualizer() {
     });
   };
 
-  const drawPlasma = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[]) => {
+  const drawPlasma = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[], pulse: number) => {
     const time = Date.now() * 0.001;
     const imageData = ctx.createImageData(canvas.width, canvas.height);
     const pixels = imageData.data;
@@ -299,7 +447,7 @@ export default function MainVisualizer() {
     // Create plasma effect with audio reactivity
     const avgAmplitude = data.reduce((sum, val) => sum + val, 0) / data.length;
     const plasmaSpeed = 1 + avgAmplitude * 2;
-    const plasmaIntensity = 0.5 + avgAmplitude * 0.5;
+    const plasmaIntensity = 0.5 + avgAmplitude * 0.5 + pulse * 0.2;
 
     for (let x = 0; x < canvas.width; x += 2) { // Skip pixels for performance
       for (let y = 0; y < canvas.height; y += 2) {
@@ -346,7 +494,7 @@ export default function MainVisualizer() {
     ctx.putImageData(imageData, 0, 0);
   };
 
-  const drawFractal = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[]) => {
+  const drawFractal = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[], pulse: number) => {
     const centerX = canvas.width / 2;
     const centerY = canvas.height / 2;
     const time = Date.now() * 0.001;
@@ -386,16 +534,19 @@ export default function MainVisualizer() {
       const angle = (i / data.length) * Math.PI * 2;
       const startX = centerX + Math.cos(angle) * 100;
       const startY = centerY + Math.sin(angle) * 100;
-      const initialLength = 30 + safeAmplitude * 50;
+      const initialLength = (30 + safeAmplitude * 50) * (1 + pulse * 0.25);
 
       drawBranch(startX, startY, angle + Math.PI, initialLength, 6, safeAmplitude);
     });
   };
 
-  const drawLiquid = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[]) => {
+  const drawLiquid = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, data: number[], pulse: number) => {
     const time = Date.now() * 0.001;
-    const centerX = canvas.width / 2;
+    const stereo = audioFramesRef.current.getFrame()?.stereo;
+    // The pool drifts toward the louder channel and stretches sideways with stereo width
+    const centerX = canvas.width / 2 + (stereo?.balance ?? 0) * canvas.width * 0.2;
     const centerY = canvas.height / 2;
+    const stretch = 1 + (stereo?.width ?? 0) * 0.8;
 
     // Create liquid/fluid simulation
     const numDrops = Math.min(50, data.length);
@@ -409,13 +560,13 @@ export default function MainVisualizer() {
       const flowAngle = baseAngle + Math.sin(time * 2 + i * 0.5) * amplitude * 0.5;
       const flowDistance = 100 + amplitude * 150 + Math.sin(time * 3 + i * 0.3) * 50;
 
-      const x = centerX + Math.cos(flowAngle) * flowDistance;
+      const x = centerX + Math.cos(flowAngle) * flowDistance * stretch;
       const y = centerY + Math.sin(flowAngle) * flowDistance + Math.sin(time * 4 + i * 0.7) * amplitude * 30;
 
       if (!isFinite(x) || !isFinite(y)) continue;
 
       // Liquid blob size varies with amplitude
-      const blobSize = Math.max(5, amplitude * 40);
+      const blobSize = Math.max(5, amplitude * 40 * (1 + pulse * 0.4));
       const hue = (i * 12 + time * 60 + amplitude * 180) % 360;
 
       // Create liquid effect with multiple overlapping circles
@@ -443,7 +594,7 @@ export default function MainVisualizer() {
 
         const otherAngle = (j / numDrops) * Math.PI * 2 + Math.sin(time * 2 + j * 0.5) * otherAmplitude * 0.5;
         const otherDistance = 100 + otherAmplitude * 150;
-        const otherX = centerX + Math.cos(otherAngle) * otherDistance;
+        const otherX = centerX + Math.cos(otherAngle) * otherDistance * stretch;
         const otherY = centerY + Math.sin(otherAngle) * otherDistance;
 
         const distance = Math.sqrt((x - otherX) ** 2 + (y - otherY) ** 2);
@@ -461,6 +612,66 @@ export default function MainVisualizer() {
     }
   };
 
+  const effectiveTempo = getEffectiveTempo();
+
+  const drawSectionFlash = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
+    const event = sectionEventRef.current;
+    if (!event) return;
+
+    const age = performance.now() - sectionEventAtRef.current;
+    if (age > SECTION_FLASH_MS) return;
+
+    const fade = 1 - age / SECTION_FLASH_MS;
+    if (event.type === 'drop') {
+      ctx.fillStyle = `rgba(255, 255, 255, ${fade * 0.35 * (0.5 + event.intensity * 0.5)})`;
+    } else if (event.type === 'breakdown' || event.type === 'outro') {
+      ctx.fillStyle = `rgba(0, 0, 0, ${fade * 0.3})`;
+    } else {
+      return;
+    }
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const drawWaveform = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, waveform: Float32Array | undefined, pulse: number) => {
+    if (!waveform || waveform.length === 0) return;
+
+    const time = Date.now() * 0.001;
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+    const baseRadius = Math.min(canvas.width, canvas.height) * 0.25 * (1 + pulse * 0.2);
+    const rms = audioFramesRef.current.getFrame()?.rms ?? 0;
+    const hue = (time * 40 + rms * 240) % 360;
+    const step = Math.max(1, Math.floor(waveform.length / 512));
+
+    // Waveform ring - the signal bends the circle in and out
+    ctx.strokeStyle = `hsla(${hue}, 90%, 65%, 0.8)`;
+    ctx.lineWidth = 2 + pulse * 3;
+    ctx.beginPath();
+    for (let i = 0; i <= waveform.length; i += step) {
+      const sample = waveform[i % waveform.length] || 0;
+      const angle = (i / waveform.length) * Math.PI * 2 + time * 0.2;
+      const radius = baseRadius + sample * baseRadius * 0.6;
+      const x = centerX + Math.cos(angle) * radius;
+      const y = centerY + Math.sin(angle) * radius;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+    ctx.stroke();
+
+    // Classic oscilloscope trace across the middle
+    ctx.strokeStyle = `hsla(${(hue + 180) % 360}, 90%, 70%, 0.5)`;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let i = 0; i < waveform.length; i += step) {
+      const x = (i / waveform.length) * canvas.width;
+      const y = centerY + (waveform[i] || 0) * canvas.height * 0.3;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+  };
+
   if (!currentTrack) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
@@ -481,10 +692,10 @@ export default function MainVisualizer() {
       )}
 
       {/* AI-Powered Generative Visualizer */}
-      {visualMode === 'generative' && trackInfo?.visualDNA && (
+      {visualMode === 'generative' && visualDNA && (
         <GenerativeVisualizer
-          audioData={audioData}
-          visualDNA={trackInfo.visualDNA}
+          audioFrames={audioFrames}
+          visualDNA={visualDNA}
           width={typeof window !== 'undefined' ? window.innerWidth : 1920}
           height={typeof window !== 'undefined' ? window.innerHeight : 1080}
         />
@@ -494,17 +705,10 @@ export default function MainVisualizer() {
       <div className="absolute top-6 left-6 right-6 flex justify-between items-center">
         {/* Visual Modes */}
         <div className="flex gap-2 bg-black/30 backdrop-blur-md rounded-full p-1">
-          {[
-            { mode: 'generative', icon: '🧬', label: 'AI Visual DNA' },
-            { mode: 'kaleidoscope', icon: '🔮', label: 'Kaleidoscope' },
-            { mode: 'neural', icon: '🧠', label: 'Neural Network' },
-            { mode: 'plasma', icon: '⚡', label: 'Plasma Field' },
-            { mode: 'fractal', icon: '🌿', label: 'Fractal Tree' },
-            { mode: 'liquid', icon: '💧', label: 'Liquid Flow' }
-          ].map(({ mode, icon, label }) => (
+          {VISUAL_MODES.map(({ mode, icon, label }) => (
             <button
               key={mode}
-              onClick={() => setVisualMode(mode as any)}
+              onClick={() => setVisualMode(mode)}
               className={`px-3 py-2 rounded-full text-sm font-medium transition-all ${visualMode === mode
                 ? 'bg-white/20 text-white'
                 : 'text-white/60 hover:text-white hover:bg-white/10'
@@ -519,15 +723,73 @@ export default function MainVisualizer() {
         <div className="flex items-center gap-3">
           {/* Audio Status Indicator */}
           <div className="flex items-center gap-2 bg-black/30 backdrop-blur-md rounded-full px-3 py-2">
-            <div className={`w-2 h-2 rounded-full ${hasRealAudio ? 'bg-green-400' : 'bg-yellow-400'}`} />
-            <span className="text-xs text-white/70">
-              {hasRealAudio ? 'Real Audio' : 'Simulated'}
+            <div className={`w-2 h-2 rounded-full ${audioSource ? 'bg-green-400' : 'bg-yellow-400'}`} />
+            <span className="text-xs text-white/70 max-w-32 truncate">
+              {audioSource?.label ?? 'Simulated'}
             </span>
           </div>
 
+          {/* Search, Library, Queue and Devices - Spotify only */}
+          {!mediaElement && (
+            <button
+              onClick={() => setShowSearch(true)}
+              className="p-2 bg-black/30 backdrop-blur-md rounded-full text-white/70 hover:text-white transition-colors"
+              title="Search (/)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+            </button>
+          )}
+          {!mediaElement && (
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="p-2 bg-black/30 backdrop-blur-md rounded-full text-white/70 hover:text-white transition-colors"
+              title="Library (L)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v16M8 4v16m4-16l6 16" />
+              </svg>
+            </button>
+          )}
+          {!mediaElement && (
+            <button
+              onClick={() => {
+                setShowQueue(!showQueue);
+                setShowSettings(false);
+                setShowDevices(false);
+              }}
+              className={`p-2 bg-black/30 backdrop-blur-md rounded-full transition-colors ${showQueue ? 'text-white' : 'text-white/70 hover:text-white'}`}
+              title="Queue (Q)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h10m4-6v6m-3-3h6" />
+              </svg>
+            </button>
+          )}
+          {!mediaElement && (
+            <button
+              onClick={() => {
+                setShowDevices(!showDevices);
+                setShowQueue(false);
+                setShowSettings(false);
+              }}
+              className={`p-2 bg-black/30 backdrop-blur-md rounded-full transition-colors ${showDevices || remoteMode ? 'text-white' : 'text-white/70 hover:text-white'}`}
+              title={remoteMode ? 'Devices - visualizing another device' : 'Devices'}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17H5a2 2 0 01-2-2V5a2 2 0 012-2h14a2 2 0 012 2v4M13 21h6a2 2 0 002-2v-6a2 2 0 00-2-2h-6a2 2 0 00-2 2v6a2 2 0 002 2zm3-4h.01" />
+              </svg>
+            </button>
+          )}
+
           {/* Settings */}
           <button
-            onClick={() => setShowSettings(!showSettings)}
+            onClick={() => {
+              setShowSettings(!showSettings);
+              setShowQueue(false);
+              setShowDevices(false);
+            }}
             className="p-2 bg-black/30 backdrop-blur-md rounded-full text-white/70 hover:text-white transition-colors"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -560,15 +822,36 @@ export default function MainVisualizer() {
                 </p>
               </div>
 
-              {/* Controls */}
+              {/* Controls - disabled wherever Spotify disallows the action */}
               <div className="flex items-center gap-3">
-                <button onClick={skipToPrevious} className="text-white/70 hover:text-white transition-colors">
+                {!mediaElement && (
+                  <button
+                    onClick={() => setShuffle(!playbackModes.shuffle)}
+                    disabled={playbackModes.disallows.toggling_shuffle}
+                    className={`transition-colors disabled:opacity-30 ${playbackModes.shuffle ? 'text-purple-400' : 'text-white/50 hover:text-white'}`}
+                    title={playbackModes.shuffle ? 'Shuffle on' : 'Shuffle'}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 3h5v5M4 20L21 3M21 16v5h-5M15 15l6 6M4 4l5 5" />
+                    </svg>
+                  </button>
+                )}
+
+                <button
+                  onClick={skipToPrevious}
+                  disabled={!mediaElement && playbackModes.disallows.skipping_prev}
+                  className="text-white/70 hover:text-white transition-colors disabled:opacity-30"
+                >
                   <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
                     <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z" />
                   </svg>
                 </button>
 
-                <button onClick={togglePlayback} className="p-2 bg-white/20 hover:bg-white/30 rounded-full text-white transition-colors">
+                <button
+                  onClick={togglePlayback}
+                  disabled={!mediaElement && (isPlaying ? playbackModes.disallows.pausing : playbackModes.disallows.resuming)}
+                  className="p-2 bg-white/20 hover:bg-white/30 rounded-full text-white transition-colors disabled:opacity-30"
+                >
                   {isPlaying ? (
                     <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
                       <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
@@ -580,11 +863,35 @@ export default function MainVisualizer() {
                   )}
                 </button>
 
-                <button onClick={skipToNext} className="text-white/70 hover:text-white transition-colors">
-                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
-                  </svg>
-                </button>
+                {!mediaElement && (
+                  <button
+                    onClick={skipToNext}
+                    disabled={playbackModes.disallows.skipping_next}
+                    className="text-white/70 hover:text-white transition-colors disabled:opacity-30"
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
+                    </svg>
+                  </button>
+                )}
+
+                {!mediaElement && (
+                  <button
+                    onClick={() => setRepeat(NEXT_REPEAT[playbackModes.repeat])}
+                    disabled={playbackModes.repeat === 'off'
+                      ? playbackModes.disallows.toggling_repeat_context
+                      : playbackModes.disallows.toggling_repeat_track}
+                    className={`relative transition-colors disabled:opacity-30 ${playbackModes.repeat !== 'off' ? 'text-purple-400' : 'text-white/50 hover:text-white'}`}
+                    title={playbackModes.repeat === 'off' ? 'Repeat' : playbackModes.repeat === 'context' ? 'Repeat all' : 'Repeat one'}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                    {playbackModes.repeat === 'track' && (
+                      <span className="absolute -top-1 -right-1.5 text-[9px] font-bold">1</span>
+                    )}
+                  </button>
+                )}
 
                 {/* Volume Slider */}
                 <div className="flex items-center gap-2 ml-6">
@@ -605,23 +912,64 @@ export default function MainVisualizer() {
               </div>
             </div>
 
-            {/* Progress */}
-            <div className="mt-3">
-              <div className="w-full bg-white/10 rounded-full h-1">
-                <div
-                  className="bg-gradient-to-r from-purple-400 to-pink-400 rounded-full h-1 transition-all duration-1000"
-                  style={{
-                    width: `${currentTrack.progress_ms && currentTrack.duration_ms
-                      ? (currentTrack.progress_ms / currentTrack.duration_ms) * 100
-                      : 0}%`
-                  }}
-                />
-              </div>
-            </div>
+            {/* Progress - local files can be scrubbed and looped */}
+            {mediaElement ? (
+              <MediaSeekBar element={mediaElement} />
+            ) : (
+              <TrackProgress
+                getPosition={getPlaybackPosition}
+                getDuration={getPlaybackDuration}
+                onSeek={replay ? undefined : seek}
+                seekDisabled={playbackModes.disallows.seeking}
+              />
+            )}
           </div>
         </div>
       )}
 
+      {/* Search Overlay */}
+      <AnimatePresence>
+        {showSearch && !mediaElement && (
+          <SearchOverlay onPlay={playOnDevice} onQueue={addToQueue} onClose={() => setShowSearch(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Library Browser */}
+      <AnimatePresence>
+        {showLibrary && !mediaElement && (
+          <LibraryBrowser onPlay={playOnDevice} onClose={() => setShowLibrary(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Queue Panel */}
+      <AnimatePresence>
+        {showQueue && !mediaElement && (
+          <QueuePanel
+            queue={queue}
+            currentTrack={currentTrack}
+            onAdd={addToQueue}
+            onRefresh={refreshQueue}
+            onClose={() => setShowQueue(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Device Panel */}
+      <AnimatePresence>
+        {showDevices && !mediaElement && (
+          <DevicePanel
+            devices={devices}
+            remoteMode={remoteMode}
+            audioSource={audioSource}
+            inputDevices={inputDevices}
+            onRefresh={refreshDevices}
+            onTransfer={transferPlayback}
+            onRemoteModeChange={setRemoteMode}
+            onSelectInput={selectAudioSource}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Settings Panel */}
       <AnimatePresence>
         {showSettings && trackInfo && (
@@ -633,34 +981,80 @@ export default function MainVisualizer() {
           >
             <h3 className="text-white font-semibold mb-3">Track Info</h3>
             <div className="space-y-2 text-sm">
-              {/* Audio Analysis Status */}
-              <div className="flex justify-between">
+              {/* Audio Source Picker - switches inputs in place */}
+              <div className="flex justify-between items-center gap-2">
                 <span className="text-gray-300">Audio Source</span>
-                <span className={hasRealAudio ? 'text-green-400' : 'text-yellow-400'}>
-                  {hasRealAudio ? 'Live Analysis' : 'Simulated'}
-                </span>
+                <select
+                  value={audioSource?.id ?? 'none'}
+                  onChange={(e) => {
+                    if (e.target.value === 'file') sourceFileRef.current?.click();
+                    else selectAudioSource(e.target.value);
+                  }}
+                  className={`bg-white/10 text-xs rounded px-2 py-1 max-w-36 ${audioSource ? 'text-green-400' : 'text-yellow-400'}`}
+                >
+                  <option value="none" className="bg-gray-900">Simulated</option>
+                  {mediaElement && <option value="element" className="bg-gray-900">This file</option>}
+                  <option value="tab" className="bg-gray-900">Tab audio</option>
+                  <option value="device:default" className="bg-gray-900">Default input</option>
+                  {inputDevices.map(device => (
+                    <option key={device.deviceId} value={`device:${device.deviceId}`} className="bg-gray-900">
+                      {device.label}
+                    </option>
+                  ))}
+                  <option value="test" className="bg-gray-900">Test signal</option>
+                  {!mediaElement && (
+                    <option value="file" className="bg-gray-900">
+                      {audioSource?.kind === 'file' ? audioSource.label : 'Audio file…'}
+                    </option>
+                  )}
+                </select>
+                <input
+                  ref={sourceFileRef}
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) selectAudioSource('file', file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+
+              {/* Audio-to-visual offset for the current output device */}
+              <div className="flex justify-between items-center">
+                <span className="text-gray-300">Latency</span>
+                <button
+                  onClick={() => setShowCalibration(true)}
+                  className="text-xs rounded px-2 py-1 bg-white/10 hover:bg-white/20 text-purple-400 tabular-nums"
+                  title={outputDevice?.label}
+                >
+                  {latencyOffset > 0 ? '+' : ''}{latencyOffset}ms · Calibrate
+                </button>
               </div>
               
               {/* Real-time Audio Levels */}
-              {audioData && (
-                <>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Bass</span>
-                    <span className="text-red-400">{Math.round(audioData.bassLevel * 100)}%</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Mids</span>
-                    <span className="text-yellow-400">{Math.round(audioData.midLevel * 100)}%</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Treble</span>
-                    <span className="text-blue-400">{Math.round(audioData.trebleLevel * 100)}%</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Volume</span>
-                    <span className="text-green-400">{Math.round(audioData.volume * 100)}%</span>
-                  </div>
-                </>
+              <AudioLevels audioFrames={audioFrames} />
+
+              {/* Features measured from the captured audio */}
+              {trackAnalysis?.source === 'signal' && (
+                <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+                  {[
+                    { label: 'Energy', value: trackAnalysis.energy },
+                    { label: 'Danceability', value: trackAnalysis.danceability },
+                    { label: 'Acoustic', value: trackAnalysis.acousticness },
+                    { label: 'Instrumental', value: trackAnalysis.instrumentalness },
+                    { label: 'Live', value: trackAnalysis.liveness },
+                  ].map(({ label, value }) => (
+                    <div key={label} className="flex justify-between">
+                      <span className="text-gray-300">{label}</span>
+                      <span className="text-cyan-400">
+                        {Math.round((value ?? 0) * 100)}%
+                        <span className="text-white/40 text-xs ml-1">measured</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
               )}
 
               {/* Track Metadata */}
@@ -676,10 +1070,28 @@ export default function MainVisualizer() {
                   <span className="text-green-400">{Math.round(trackInfo.valence * 100)}%</span>
                 </div>
               )}
-              {trackInfo?.tempo && (
+              {effectiveTempo.bpm && (
                 <div className="flex justify-between">
                   <span className="text-gray-300">BPM</span>
-                  <span className="text-blue-400">{Math.round(trackInfo.tempo)}</span>
+                  <span className="text-blue-400">
+                    {Math.round(effectiveTempo.bpm)}
+                    <span className="text-white/40 text-xs ml-1">{effectiveTempo.isLive ? 'live' : 'AI'}</span>
+                  </span>
+                </div>
+              )}
+              {liveSection && (
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Section</span>
+                  <span className="text-orange-400 capitalize">{liveSection}</span>
+                </div>
+              )}
+              {liveKey && (
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Key</span>
+                  <span className="text-pink-400">
+                    {liveKey.name}
+                    <span className="text-white/40 text-xs ml-1">live</span>
+                  </span>
                 </div>
               )}
               {trackInfo?.genre && (
@@ -694,6 +1106,111 @@ export default function MainVisualizer() {
                 </div>
               )}
 
+              {/* Analyser Settings */}
+              <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">FFT Size</span>
+                  <select
+                    value={analyserSettings.fftSize}
+                    onChange={(e) => updateAnalyserSettings({ fftSize: parseInt(e.target.value, 10) })}
+                    className="bg-white/10 text-white text-xs rounded px-2 py-1"
+                  >
+                    {FFT_SIZE_OPTIONS.map(size => (
+                      <option key={size} value={size} className="bg-gray-900">{size}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">Smoothing</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="0.95"
+                    step="0.05"
+                    value={analyserSettings.smoothing}
+                    onChange={(e) => updateAnalyserSettings({ smoothing: parseFloat(e.target.value) })}
+                    className="w-24 h-1 bg-white/20 rounded-lg appearance-none slider cursor-pointer"
+                  />
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">Band Scale</span>
+                  <select
+                    value={analyserSettings.bandScale}
+                    onChange={(e) => updateAnalyserSettings({ bandScale: e.target.value as BandScale })}
+                    className="bg-white/10 text-white text-xs rounded px-2 py-1"
+                  >
+                    <option value="log" className="bg-gray-900">Log</option>
+                    <option value="mel" className="bg-gray-900">Mel</option>
+                  </select>
+                </div>
+                <label className="flex justify-between items-center cursor-pointer">
+                  <span className="text-gray-300">Audio-Thread Analysis</span>
+                  <input
+                    type="checkbox"
+                    checked={analyserSettings.useWorklet}
+                    onChange={(e) => updateAnalyserSettings({ useWorklet: e.target.checked })}
+                    className="accent-purple-500"
+                  />
+                </label>
+                <label className="flex justify-between items-center cursor-pointer">
+                  <span className="text-gray-300">Auto Gain</span>
+                  <input
+                    type="checkbox"
+                    checked={analyserSettings.autoGain}
+                    onChange={(e) => updateAnalyserSettings({ autoGain: e.target.checked })}
+                    className="accent-purple-500"
+                  />
+                </label>
+                {analyserSettings.autoGain && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-300">Gain Attack</span>
+                      <input
+                        type="range"
+                        min="50"
+                        max="2000"
+                        step="50"
+                        value={analyserSettings.gainAttack}
+                        onChange={(e) => updateAnalyserSettings({ gainAttack: parseInt(e.target.value, 10) })}
+                        className="w-24 h-1 bg-white/20 rounded-lg appearance-none slider cursor-pointer"
+                        title={`${analyserSettings.gainAttack} ms`}
+                      />
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-300">Gain Release</span>
+                      <input
+                        type="range"
+                        min="500"
+                        max="10000"
+                        step="250"
+                        value={analyserSettings.gainRelease}
+                        onChange={(e) => updateAnalyserSettings({ gainRelease: parseInt(e.target.value, 10) })}
+                        className="w-24 h-1 bg-white/20 rounded-lg appearance-none slider cursor-pointer"
+                        title={`${analyserSettings.gainRelease} ms`}
+                      />
+                    </div>
+                  </>
+                )}
+                <label className="flex justify-between items-center cursor-pointer">
+                  <span className="text-gray-300">Switch Mode on Drops</span>
+                  <input
+                    type="checkbox"
+                    checked={switchOnDrops}
+                    onChange={(e) => setSwitchOnDrops(e.target.checked)}
+                    className="accent-purple-500"
+                  />
+                </label>
+                <label className="flex justify-between items-center cursor-pointer">
+                  <span className="text-gray-300">Colors Follow Key</span>
+                  <input
+                    type="checkbox"
+                    checked={keyColors}
+                    onChange={(e) => setKeyColors(e.target.checked)}
+                    className="accent-purple-500"
+                  />
+                </label>
+              </div>
+
               {/* Error Display */}
               {error && (
                 <div className="mt-3 pt-3 border-t border-red-500/20">
@@ -727,15 +1244,32 @@ export default function MainVisualizer() {
         </div>
       )}
 
-      {/* Audio Setup Guide */}
-      <AudioSetupGuide hasRealAudio={hasRealAudio} error={error} />
+      {/* Audio Setup Guide - tab capture help doesn't apply to local files */}
+      {!mediaElement && <AudioSetupGuide hasRealAudio={hasRealAudio} error={error} />}
+
+      {showCalibration && (
+        <LatencyCalibration
+          offset={latencyOffset}
+          device={outputDevice}
+          onChange={setLatencyOffset}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
 
       {/* Debug Panel (only in development) */}
       {process.env.NODE_ENV === 'development' && (
         <AudioDebugPanel 
-          audioData={audioData} 
+          audioFrames={audioFrames}
           hasRealAudio={hasRealAudio} 
           isPlaying={isPlaying} 
+          recording={recording}
+          replay={replay}
+          getReplayStatus={getReplayStatus}
+          onStartRecording={startRecording}
+          onStopRecording={handleStopRecording}
+          onLoadRecording={handleLoadRecording}
+          onControlReplay={controlReplay}
+          onCloseReplay={handleCloseReplay}
         />
       )}
     </div>
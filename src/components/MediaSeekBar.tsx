@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface MediaSeekBarProps {
+  element: HTMLMediaElement;
+}
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// Scrubber and loop toggle for a local media element; reads position straight from the element
+export default function MediaSeekBar({ element }: MediaSeekBarProps) {
+  const [position, setPosition] = useState(element.currentTime);
+  const [duration, setDuration] = useState(element.duration);
+  const [loop, setLoop] = useState(element.loop);
+
+  useEffect(() => {
+    const update = () => {
+      setPosition(element.currentTime);
+      setDuration(element.duration);
+    };
+
+    const events = ['timeupdate', 'durationchange', 'loadedmetadata', 'seeked'] as const;
+    events.forEach(event => element.addEventListener(event, update));
+    update();
+
+    return () => events.forEach(event => element.removeEventListener(event, update));
+  }, [element]);
+
+  const toggleLoop = () => {
+    element.loop = !element.loop;
+    setLoop(element.loop);
+  };
+
+  return (
+    <div className="mt-3 flex items-center gap-3">
+      <span className="text-xs text-white/50 w-10 text-right tabular-nums">{formatTime(position)}</span>
+      <input
+        type="range"
+        min="0"
+        max={Number.isFinite(duration) ? duration : 0}
+        step="0.1"
+        value={position}
+        onChange={(e) => {
+          element.currentTime = parseFloat(e.target.value);
+          setPosition(element.currentTime);
+        }}
+        className="flex-1 h-1 bg-white/20 rounded-lg appearance-none slider cursor-pointer"
+      />
+      <span className="text-xs text-white/50 w-10 tabular-nums">{formatTime(duration)}</span>
+      <button
+        onClick={toggleLoop}
+        className={`p-1 rounded transition-colors ${loop ? 'text-purple-400' : 'text-white/50 hover:text-white'}`}
+        title={loop ? 'Looping' : 'Loop'}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import Artwork from './Artwork';
+import type { QueueTrack, TrackInfo } from '@/hooks/useSpotifyPlayer';
+import { useDebouncedSearch } from '@/hooks/useDebouncedSearch';
+import type { SearchType } from '@/lib/spotifySearch';
+
+interface QueuePanelProps {
+  queue: QueueTrack[];
+  currentTrack: TrackInfo | null;
+  onAdd: (uri: string) => Promise<boolean>;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const SEARCH_TYPES: SearchType[] = ['track'];
+const SEARCH_LIMIT = 6;
+
+// Slide-out queue with a quick track search, so the queue can be managed over the visuals
+export default function QueuePanel({ queue, currentTrack, onAdd, onRefresh, onClose }: QueuePanelProps) {
+  const [query, setQuery] = useState('');
+  const { results, error: searchError } = useDebouncedSearch(query, SEARCH_TYPES, SEARCH_LIMIT);
+  const [added, setAdded] = useState<Set<string>>(new Set());
+
+  // Other devices may have changed the queue since it was last fetched
+  useEffect(() => {
+    onRefresh();
+  }, [onRefresh]);
+
+  const handleAdd = async (uri: string) => {
+    if (await onAdd(uri)) {
+      setAdded(prev => new Set(prev).add(uri));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 320 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 320 }}
+      className="absolute top-20 right-6 bottom-36 w-80 flex flex-col bg-black/60 backdrop-blur-xl rounded-2xl border border-white/10 z-40"
+    >
+      <div className="flex justify-between items-center p-4 pb-2">
+        <h3 className="text-white font-semibold">Queue</h3>
+        <button onClick={onClose} className="text-white/50 hover:text-white" title="Close (Q)">×</button>
+      </div>
+
+      {/* Add to queue */}
+      <div className="px-4 pb-3 border-b border-white/10">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.stopPropagation()}
+          placeholder="Search tracks to add…"
+          className="w-full bg-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 outline-none focus:bg-white/15"
+        />
+        {searchError && <p className="text-red-400 text-xs mt-2">{searchError}</p>}
+        {results.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {results.map(result => (
+              <li key={result.id} className="flex items-center gap-3 p-1 rounded-lg hover:bg-white/5">
+                <Artwork src={result.image} alt={result.name} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-white truncate">{result.name}</p>
+                  <p className="text-xs text-white/50 truncate">{result.subtitle}</p>
+                </div>
+                <button
+                  onClick={() => handleAdd(result.uri)}
+                  disabled={added.has(result.uri)}
+                  className="w-7 h-7 rounded-full bg-white/10 hover:bg-white/20 text-white disabled:text-green-400 disabled:bg-transparent"
+                  title="Add to queue"
+                >
+                  {added.has(result.uri) ? '✓' : '+'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {currentTrack && (
+          <div>
+            <p className="text-xs uppercase tracking-wide text-white/40 mb-2">Now playing</p>
+            <div className="flex items-center gap-3">
+              <Artwork src={currentTrack.image} alt={currentTrack.album} />
+              <div className="min-w-0">
+                <p className="text-sm text-purple-300 truncate">{currentTrack.name}</p>
+                <p className="text-xs text-white/50 truncate">{currentTrack.artists.join(', ')}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <p className="text-xs uppercase tracking-wide text-white/40 mb-2">Next up</p>
+          {queue.length === 0 ? (
+            <p className="text-sm text-white/40">Nothing queued</p>
+          ) : (
+            <ul className="space-y-2">
+              {queue.map((track, index) => (
+                // The same track can be queued more than once
+                <li key={`${track.id}-${index}`} className="flex items-center gap-3">
+                  <Artwork src={track.image} alt={track.album} />
+                  <div className="min-w-0">
+                    <p className="text-sm text-white truncate">{track.name}</p>
+                    <p className="text-xs text-white/50 truncate">{track.artists.join(', ')}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import TrackCard from './TrackCard';
+import type { PlayTarget } from '@/hooks/useSpotifyPlayer';
+import { useDebouncedSearch } from '@/hooks/useDebouncedSearch';
+import type { SearchResult, SearchType } from '@/lib/spotifySearch';
+
+interface SearchOverlayProps {
+  onPlay: (target: PlayTarget) => Promise<boolean>;
+  onQueue: (uri: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const RESULTS_PER_TYPE = 6;
+
+const FILTERS: Array<{ label: string; types: SearchType[] }> = [
+  { label: 'All', types: ['track', 'album', 'artist', 'playlist'] },
+  { label: 'Tracks', types: ['track'] },
+  { label: 'Albums', types: ['album'] },
+  { label: 'Artists', types: ['artist'] },
+  { label: 'Playlists', types: ['playlist'] },
+];
+
+const TYPE_LABELS: Record<SearchType, string> = {
+  track: 'Tracks',
+  album: 'Albums',
+  artist: 'Artists',
+  playlist: 'Playlists',
+};
+
+// TrackCard's shape, with the subtitle standing in for the artists on non-track results
+function toCardTrack(result: SearchResult) {
+  return {
+    id: result.id,
+    name: result.name,
+    artists: [{ name: result.subtitle }],
+    album: { name: result.name, images: result.artwork ? [{ url: result.artwork, width: 300, height: 300 }] : [] },
+    preview_url: null,
+  };
+}
+
+// Tracks play on their own; everything else plays as a context so the queue follows it
+function toPlayTarget(result: SearchResult): PlayTarget {
+  return result.type === 'track' ? { uris: [result.uri] } : { contextUri: result.uri };
+}
+
+export default function SearchOverlay({ onPlay, onQueue, onClose }: SearchOverlayProps) {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState(0);
+  const { results, loading, error } = useDebouncedSearch(query, FILTERS[filter].types, RESULTS_PER_TYPE);
+  const [selected, setSelected] = useState(0);
+  const [status, setStatus] = useState<string | null>(null);
+  const itemRefs = useRef<Array<HTMLDivElement | null>>([]);
+
+  // A fresh set of results starts from the top and replaces any "Queued" note
+  useEffect(() => {
+    setSelected(0);
+    setStatus(null);
+  }, [results]);
+
+  useEffect(() => {
+    itemRefs.current[selected]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selected]);
+
+  const play = async (result: SearchResult) => {
+    if (await onPlay(toPlayTarget(result))) onClose();
+  };
+
+  const queue = async (result: SearchResult) => {
+    if (result.type !== 'track') return;
+    if (await onQueue(result.uri)) setStatus(`Queued ${result.name}`);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Keep the visualizer's own shortcuts from firing while typing
+    event.stopPropagation();
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setSelected(index => Math.min(results.length - 1, index + 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setSelected(index => Math.max(0, index - 1));
+        break;
+      case 'Tab':
+        event.preventDefault();
+        setFilter(index => (index + (event.shiftKey ? FILTERS.length - 1 : 1)) % FILTERS.length);
+        break;
+      case 'Enter': {
+        const result = results[selected];
+        if (!result) break;
+        if (event.shiftKey) queue(result);
+        else play(result);
+        break;
+      }
+      case 'Escape':
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="max-w-5xl w-full mx-auto p-6 flex flex-col min-h-0 flex-1">
+        <div className="flex items-center gap-3 mb-4">
+          <input
+            autoFocus
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search tracks, albums, artists and playlists"
+            className="flex-1 bg-white/10 rounded-xl px-4 py-3 text-white placeholder-white/40 outline-none focus:bg-white/15"
+          />
+          <button onClick={onClose} className="text-white/50 hover:text-white text-2xl px-2" title="Close (Esc)">×</button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4">
+          {FILTERS.map(({ label }, index) => (
+            <button
+              key={label}
+              onClick={() => setFilter(index)}
+              className={`px-3 py-1 rounded-full text-sm transition-all ${filter === index
+                ? 'bg-white/20 text-white'
+                : 'text-white/60 hover:text-white hover:bg-white/10'
+                }`}
+            >
+              {label}
+            </button>
+          ))}
+          <span className="ml-auto text-xs text-white/40">
+            ↑↓ select · Enter play · Shift+Enter queue · Tab filter
+          </span>
+        </div>
+
+        {(error ?? status) && <p className="text-sm text-purple-300 mb-3">{error ?? status}</p>}
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          {loading && results.length === 0 && <p className="text-white/50 text-sm">Searching…</p>}
+          {!loading && query.trim() && results.length === 0 && !error && !status && (
+            <p className="text-white/50 text-sm">No results</p>
+          )}
+
+          {FILTERS[filter].types.map(type => {
+            const group = results
+              .map((result, index) => ({ result, index }))
+              .filter(({ result }) => result.type === type);
+            if (group.length === 0) return null;
+
+            return (
+              <section key={type} className="mb-6">
+                <h3 className="text-white/70 text-sm font-medium mb-2">{TYPE_LABELS[type]}</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                  {group.map(({ result, index }) => (
+                    <div
+                      key={result.uri}
+                      ref={(element) => {
+                        itemRefs.current[index] = element;
+                      }}
+                      onMouseEnter={() => setSelected(index)}
+                    >
+                      <TrackCard
+                        track={toCardTrack(result)}
+                        badge={result.type === 'track' ? undefined : result.type}
+                        selected={index === selected}
+                        onPlay={() => play(result)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -26,9 +26,12 @@ interface AudioFeatures {
 interface TrackCardProps {
   track: Track;
   audioFeatures?: AudioFeatures;
+  onPlay?: () => void; // Plays in place instead of opening Spotify
+  selected?: boolean; // Keyboard focus
+  badge?: string; // e.g. 'Album' when the card stands for something other than a track
 }
 
-export default function TrackCard({ track, audioFeatures }: TrackCardProps) {
+export default function TrackCard({ track, audioFeatures, onPlay, selected, badge }: TrackCardProps) {
   const [dominantColor, setDominantColor] = useState('#6366f1');
   const [mounted, setMounted] = useState(false);
 
@@ -113,7 +116,10 @@ export default function TrackCard({ track, audioFeatures }: TrackCardProps) {
 
   return (
     <motion.div
-      className="relative bg-white/10 backdrop-blur-sm rounded-xl overflow-hidden border border-white/20 hover:border-white/40 transition-all duration-300 group"
+      className={`relative bg-white/10 backdrop-blur-sm rounded-xl overflow-hidden border transition-all duration-300 group ${selected
+        ? 'border-purple-400 ring-2 ring-purple-400/60'
+        : 'border-white/20 hover:border-white/40'
+        }`}
       whileHover={{ scale: 1.02, y: -4 }}
       style={{
         boxShadow: `0 8px 32px ${dominantColor}20`,
@@ -135,10 +141,20 @@ export default function TrackCard({ track, audioFeatures }: TrackCardProps) {
           style={{ backgroundColor: dominantColor }}
         />
         
+        {badge && (
+          <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-black/60 text-white/80 text-[10px] uppercase tracking-wide">
+            {badge}
+          </span>
+        )}
+
         {/* Spotify Embed Player */}
-        <div className="absolute inset-0 bg-black/60 opacity-0 hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
+        <div className={`absolute inset-0 bg-black/60 hover:opacity-100 transition-opacity duration-300 flex items-center justify-center ${selected ? 'opacity-100' : 'opacity-0'}`}>
           <button
             onClick={() => {
+              if (onPlay) {
+                onPlay();
+                return;
+              }
               const spotifyUrl = `https://open.spotify.com/track/${track.id}`;
               window.open(spotifyUrl, '_blank');
             }}
@@ -147,7 +163,7 @@ export default function TrackCard({ track, audioFeatures }: TrackCardProps) {
             <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
               <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.42 1.56-.299.421-1.02.599-1.559.3z"/>
             </svg>
-            Play on Spotify
+            {onPlay ? 'Play' : 'Play on Spotify'}
           </button>
         </div>
 
@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface TrackProgressProps {
+  getPosition: () => number | null; // ms
+  getDuration: () => number; // ms
+  onSeek?: (position: number) => Promise<void>; // ms; omitted or disabled leaves the bar display-only
+  seekDisabled?: boolean;
+}
+
+const KEY_STEP = 5000; // ms per arrow key
+
+function formatTime(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// Redrawn every animation frame from the playback clock, outside React renders. While
+// scrubbing, the bar follows the pointer and the seek is sent on release.
+export default function TrackProgress({ getPosition, getDuration, onSeek, seekDisabled }: TrackProgressProps) {
+  const [hover, setHover] = useState<{ x: number; time: number } | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+  const elapsedRef = useRef<HTMLSpanElement>(null);
+  const remainingRef = useRef<HTMLSpanElement>(null);
+  const scrubRef = useRef<number | null>(null); // ms under the pointer while dragging
+
+  const seekable = !!onSeek && !seekDisabled;
+
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      const position = scrubRef.current ?? getPosition();
+      const duration = getDuration();
+      if (barRef.current) {
+        barRef.current.style.width = `${position !== null && duration > 0 ? (position / duration) * 100 : 0}%`;
+      }
+
+      // Text only changes once a second; skip the DOM write otherwise
+      const elapsed = formatTime(position ?? 0);
+      const remaining = `-${formatTime(duration - (position ?? 0))}`;
+      if (elapsedRef.current && elapsedRef.current.textContent !== elapsed) elapsedRef.current.textContent = elapsed;
+      if (remainingRef.current && remainingRef.current.textContent !== remaining) remainingRef.current.textContent = remaining;
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [getPosition, getDuration]);
+
+  const positionAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return { x: ratio * rect.width, time: ratio * getDuration() };
+  };
+
+  // Holds the scrubbed position until the seek lands so the bar doesn't flick back
+  const commit = async (time: number) => {
+    scrubRef.current = time;
+    try {
+      await onSeek?.(time);
+    } finally {
+      scrubRef.current = null;
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!seekable || getDuration() <= 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    scrubRef.current = positionAt(event.clientX).time;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!seekable || getDuration() <= 0) return;
+    const point = positionAt(event.clientX);
+    setHover(point);
+    if (scrubRef.current !== null) scrubRef.current = point.time;
+  };
+
+  const handlePointerUp = () => {
+    if (scrubRef.current !== null) commit(scrubRef.current);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!seekable || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const position = getPosition() ?? 0;
+    const target = position + (event.key === 'ArrowRight' ? KEY_STEP : -KEY_STEP);
+    commit(Math.max(0, Math.min(getDuration(), target)));
+  };
+
+  return (
+    <div className="mt-3 flex items-center gap-3">
+      <span ref={elapsedRef} className="text-xs text-white/50 w-10 text-right tabular-nums">0:00</span>
+      <div
+        ref={trackRef}
+        aria-label="Seek"
+        tabIndex={seekable ? 0 : -1}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => {
+          scrubRef.current = null;
+        }}
+        onPointerLeave={() => setHover(null)}
+        onKeyDown={handleKeyDown}
+        className={`relative flex-1 py-2 group outline-none ${seekable ? 'cursor-pointer' : ''}`}
+      >
+        <div className={`w-full bg-white/10 rounded-full transition-all ${seekable ? 'h-1 group-hover:h-1.5' : 'h-1'}`}>
+          <div ref={barRef} className="bg-gradient-to-r from-purple-400 to-pink-400 rounded-full h-full" style={{ width: 0 }} />
+        </div>
+        {hover && (
+          <span
+            className="absolute bottom-full -translate-x-1/2 px-1.5 py-0.5 rounded bg-black/80 text-white text-xs tabular-nums pointer-events-none"
+            style={{ left: hover.x }}
+          >
+            {formatTime(hover.time)}
+          </span>
+        )}
+      </div>
+      <span ref={remainingRef} className="text-xs text-white/50 w-10 tabular-nums">-0:00</span>
+    </div>
+  );
+}
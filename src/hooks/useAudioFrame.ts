@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AudioFrameBus } from '@/lib/audioFrameBus';
+import type { AudioData } from '@/hooks/useSpotifyPlayer';
+
+function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  const keysA = Object.keys(a) as Array<keyof T>;
+  return keysA.length === Object.keys(b).length && keysA.every(key => Object.is(a[key], b[key]));
+}
+
+// Re-renders with a derived value from the frame bus, at most `fps` times a second and only
+// when the value changes; select rounded or coarse values to keep renders rare. 0 fps pauses it.
+export function useAudioFrame<T>(bus: AudioFrameBus, select: (frame: AudioData | null) => T, fps = 10): T {
+  const [value, setValue] = useState(() => select(bus.getFrame()));
+  const selectRef = useRef(select);
+  selectRef.current = select;
+
+  useEffect(() => {
+    if (fps <= 0) return;
+
+    let sampledAt = -Infinity;
+    const update = (frame: AudioData | null) => {
+      const now = performance.now();
+      if (now - sampledAt < 1000 / fps) return;
+      sampledAt = now;
+      const next = selectRef.current(frame);
+      setValue(previous => (shallowEqual(previous, next) ? previous : next));
+    };
+
+    update(bus.getFrame());
+    return bus.subscribe(update);
+  }, [bus, fps]);
+
+  return value;
+}
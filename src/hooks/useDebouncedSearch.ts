@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { searchSpotify, type SearchResult, type SearchType } from '@/lib/spotifySearch';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Searches once typing pauses, dropping any request a newer query overtakes. The types array
+// should be stable (module-level) or every render searches again.
+export function useDebouncedSearch(query: string, types: SearchType[], limit: number) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await searchSpotify(trimmed, types, limit, controller.signal));
+        setError(null);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setError(error instanceof Error ? error.message : 'Search failed');
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, types, limit]);
+
+  return { results, loading, error };
+}
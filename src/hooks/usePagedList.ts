@@ -0,0 +1,57 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PageLoader } from '@/lib/spotifyLibrary';
+
+// Accumulates the pages of a cursor-paginated list. Changing the path starts over; pass null
+// to leave the list empty. The loader should be stable (module-level) or every render restarts.
+export function usePagedList<T>(path: string | null, load: PageLoader<T>) {
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [next, setNext] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const loadPage = useCallback(async (pagePath: string, replace: boolean) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+
+    try {
+      const page = await load(pagePath, controller.signal);
+      setItems(prev => (replace ? page.items : [...prev, ...page.items]));
+      setTotal(page.total);
+      setNext(page.next);
+      setError(null);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setError(error instanceof Error ? error.message : 'Could not load more');
+      }
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [load]);
+
+  useEffect(() => {
+    setItems([]);
+    setTotal(0);
+    setNext(null);
+    setError(null);
+    if (path) loadPage(path, true);
+    return () => controllerRef.current?.abort();
+  }, [path, loadPage]);
+
+  // Stops after a failure so a visible scroll sentinel doesn't hammer the API; retry resumes
+  const loadMore = useCallback(() => {
+    if (next && !loading && !error) loadPage(next, false);
+  }, [next, loading, error, loadPage]);
+
+  const retry = useCallback(() => {
+    if (next) loadPage(next, false);
+    else if (path) loadPage(path, true);
+  }, [next, path, loadPage]);
+
+  return { items, total, hasMore: next !== null, loading, error, loadMore, retry };
+}
@@ -1,4 +1,48 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { BeatDetector, type BeatEvent, type OnsetEvent } from '@/lib/beatDetector';
+import { TempoTracker, TEMPO_CONFIDENCE_THRESHOLD, type TempoEstimate } from '@/lib/tempoTracker';
+import { KeyDetector, KEY_CONFIDENCE_THRESHOLD, type KeyEstimate } from '@/lib/keyDetector';
+import { LevelNormalizer, type Levels } from '@/lib/levelNormalizer';
+import { SectionTracker, type SectionEvent, type SectionListener, type SectionState } from '@/lib/sectionTracker';
+import { SignalFeatureCollector } from '@/lib/signalFeatures';
+import { getTrackAudioFeatures, type TrackAnalysis } from '@/lib/audioAnalysis';
+import { AnalysisWorkletClient } from '@/lib/analysisWorklet';
+import {
+  describeSource,
+  FileSource,
+  InputDeviceSource,
+  listInputDevices,
+  MediaElementSource,
+  TabCaptureSource,
+  TestSignalSource,
+  type AudioSource,
+  type AudioSourceInfo,
+  type InputDevice,
+} from '@/lib/audioSources';
+import { getWaveformStats, synthesizeWaveform, WAVEFORM_SIZE } from '@/lib/waveform';
+import { AudioSimulator } from '@/lib/audioSimulator';
+import {
+  BeatLookahead,
+  clampLatency,
+  FrameDelayBuffer,
+  getOutputDevice,
+  loadLatencyOffset,
+  saveLatencyOffset,
+  type OutputDevice,
+} from '@/lib/latencyCalibration';
+import { PlaybackClock } from '@/lib/playbackClock';
+import { fetchDevices, loadRemoteMode, saveRemoteMode, type SpotifyDevice } from '@/lib/spotifyDevices';
+import { AudioFrameBus } from '@/lib/audioFrameBus';
+import { SessionPlayer, SessionRecorder, type RecordedSession, type ReplayFrame } from '@/lib/sessionRecording';
+import { createSilentStereo, simulateStereo, StereoAnalyser, type StereoImage } from '@/lib/stereoAnalyser';
+import {
+  createBandMapping,
+  getLevels,
+  mapBands,
+  DEFAULT_ANALYSER_SETTINGS,
+  type AnalyserSettings,
+  type BandMapping,
+} from '@/lib/bandMapper';
 
 declare global {
   interface Window {
@@ -46,6 +90,9 @@ interface SpotifyPlayerState {
     seeking: boolean;
     skipping_next: boolean;
     skipping_prev: boolean;
+    toggling_shuffle?: boolean;
+    toggling_repeat_context?: boolean;
+    toggling_repeat_track?: boolean;
   };
   paused: boolean;
   position: number;
@@ -72,6 +119,7 @@ interface SpotifyTrack {
 }
 
 export interface TrackInfo {
+  id: string;
   name: string;
   artists: string[];
   album: string;
@@ -79,52 +127,282 @@ export interface TrackInfo {
   duration_ms: number;
   progress_ms: number;
   is_playing: boolean;
+  isrc?: string; // Only the Web API reports it; SDK track objects carry no external ids
 }
 
 export interface AudioData {
   frequencies: Uint8Array;
+  bands: Float32Array; // 0-1 log or mel spaced perceptual bands, gain-normalised when autoGain is on
+  rawBands: Float32Array; // bands before gain normalisation
+  waveform: Float32Array; // Most recent time-domain samples, -1 to 1
+  rms: number; // True RMS of the waveform window
+  peak: number; // Absolute sample peak of the waveform window
+  crestFactor: number; // peak / rms, 0 when silent
   volume: number;
   bassLevel: number;
   midLevel: number;
   trebleLevel: number;
+  rawLevels: Levels; // volume and bass/mid/treble before gain normalisation
+  onset: OnsetEvent | null; // Set only on the frame an onset (kick, snare, hat) fires
+  beat: BeatEvent | null; // Set only on the frame a low-band beat fires
+  beatPulse: number; // 0-1 envelope that jumps on each beat and decays between them
+  tempo: TempoEstimate | null; // Live BPM and beat phase, null until the tracker has an estimate
+  stereo: StereoImage; // Per-channel spectra and levels with stereo width and balance
+  chroma: Float32Array; // 12 pitch-class energies (C first), normalised to the strongest
+  key: KeyEstimate | null; // Estimated key and mode, null until there is harmonic content
+  section: SectionState | null; // Live song section (build, drop, ...), from the song template when simulated; null while silent
+}
+
+// Where a loaded recording is, for the replay controls
+export interface ReplayStatus {
+  track: TrackInfo | null;
+  trackAnalysis: TrackAnalysis | null;
+  frameIndex: number;
+  frameCount: number;
+  position: number; // ms
+  duration: number; // ms
+  playing: boolean;
+  speed: number;
+}
+
+export interface ReplayControl {
+  playing?: boolean;
+  speed?: number;
+  step?: number; // frames, negative steps back
+  seek?: number; // ms
+}
+
+export interface QueueTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artists: string[];
+  album: string;
+  image?: string;
+}
+
+// What to start: explicit track uris, or a context (album, artist, playlist) optionally at a track
+export interface PlayTarget {
+  uris?: string[];
+  contextUri?: string;
+  offsetUri?: string;
+}
+
+export type RepeatMode = 'off' | 'context' | 'track';
+
+// The SDK reports every flag; the Web API's actions.disallows lists only the true ones
+export type PlaybackDisallows = Partial<SpotifyPlayerState['disallows']>;
+
+export interface PlaybackModes {
+  shuffle: boolean;
+  repeat: RepeatMode;
+  disallows: PlaybackDisallows;
+}
+
+// ms between now-playing polls while another device is playing
+const REMOTE_POLL_INTERVAL = 3000;
+
+// Indexed by the SDK's numeric repeat_mode
+const REPEAT_MODES: RepeatMode[] = ['off', 'context', 'track'];
+
+// Tag-derived details for a local file; duration, position and play state come from the element
+export type LocalTrack = Pick<TrackInfo, 'id' | 'name' | 'artists' | 'album' | 'image'>;
+
+export interface PlayerOptions {
+  // Plays and analyses this element instead of connecting to Spotify
+  mediaElement?: HTMLMediaElement | null;
+  localTrack?: LocalTrack | null;
+}
+
+// SDK track_window entries and Web API track objects share these fields
+function toQueueTrack(track: SpotifyTrack): QueueTrack {
+  return {
+    id: track.id,
+    uri: track.uri,
+    name: track.name,
+    artists: track.artists.map(artist => artist.name),
+    album: track.album.name,
+    image: track.album.images[track.album.images.length - 1]?.url ?? track.album.images[0]?.url,
+  };
 }
 
-export function useSpotifyPlayer() {
+function toTrackMetadata(track: TrackInfo) {
+  return {
+    id: track.id,
+    name: track.name,
+    artists: track.artists.map(name => ({ name })),
+    album: { name: track.album, release_date: '' },
+    external_ids: { isrc: track.isrc },
+  };
+}
+
+export function useSpotifyPlayer(options: PlayerOptions = {}) {
+  const mediaElement = options.mediaElement ?? null;
+  const localTrack = options.localTrack ?? null;
+  const isLocal = !!mediaElement;
+
   const [state, setState] = useState<{
     currentTrack: TrackInfo | null;
-    audioData: AudioData | null;
     isPlaying: boolean;
     isConnected: boolean;
     error: string | null;
     volume: number;
     audioContextReady: boolean;
     needsUserInteraction: boolean;
+    analyserSettings: AnalyserSettings;
+    trackAnalysis: TrackAnalysis | null;
+    audioSource: AudioSourceInfo | null; // What is being analysed; null means simulated data
+    inputDevices: InputDevice[];
+    queue: QueueTrack[]; // Upcoming tracks, next first
+    recording: boolean;
+    replay: ReplayStatus | null; // A loaded recording overrides the live track and audio
+    latencyOffset: number; // ms the visuals are shifted by; positive delays them
+    outputDevice: OutputDevice | null;
+    playbackModes: PlaybackModes;
+    devices: SpotifyDevice[];
+    remoteMode: boolean; // Playback stays on another Connect device; visuals come from an input
   }>({
     currentTrack: null,
-    audioData: null,
     isPlaying: false,
     isConnected: false,
     error: null,
     volume: 0.7,
     audioContextReady: false,
     needsUserInteraction: true,
+    analyserSettings: DEFAULT_ANALYSER_SETTINGS,
+    trackAnalysis: null,
+    audioSource: null,
+    inputDevices: [],
+    queue: [],
+    recording: false,
+    replay: null,
+    latencyOffset: 0,
+    outputDevice: null,
+    playbackModes: { shuffle: false, repeat: 'off', disallows: {} },
+    devices: [],
+    remoteMode: false,
   });
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | undefined>(undefined);
   const playerRef = useRef<SpotifyPlayer | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const sourceRef = useRef<AudioSource | null>(null);
+  const monitorRef = useRef<GainNode | null>(null);
   const sdkLoadedRef = useRef<boolean>(false);
   const deviceIdRef = useRef<string | null>(null);
   const audioConnectionAttemptRef = useRef<boolean>(false);
+  const connectRequestRef = useRef(0); // bumped per source switch; a slower, older open is dropped
+  const beatDetectorRef = useRef<BeatDetector | null>(null);
+  const tempoTrackerRef = useRef<TempoTracker | null>(null);
+  const keyDetectorRef = useRef<KeyDetector | null>(null);
+  const levelNormalizerRef = useRef<LevelNormalizer | null>(null);
+  const sectionTrackerRef = useRef<SectionTracker | null>(null);
+  const signalCollectorRef = useRef<SignalFeatureCollector | null>(null);
+  const playbackClockRef = useRef<PlaybackClock | null>(null);
+  const currentTrackIdRef = useRef<string | null>(null);
+  const remoteModeRef = useRef(false);
+  const remoteSourceRef = useRef<AudioSource | null>(null); // Input remote mode chose on its own
+  const frameBusRef = useRef<AudioFrameBus | null>(null);
+  const analyserSettingsRef = useRef<AnalyserSettings>(DEFAULT_ANALYSER_SETTINGS);
+  const bandMappingRef = useRef<BandMapping | null>(null);
+  const workletRef = useRef<AnalysisWorkletClient | null>(null);
+  const stereoRef = useRef<StereoAnalyser | null>(null);
+  const analysisPathRef = useRef<'real' | 'simulated' | null>(null);
+  // The section lives with its simulator, so a new track starts from a fresh one
+  const simulatorRef = useRef<{ key: string; simulator: AudioSimulator; section: SectionState | null } | null>(null);
+  const mediaElementRef = useRef<HTMLMediaElement | null>(mediaElement);
+  const updateAudioDataRef = useRef<() => void>(() => {});
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const latencyOffsetRef = useRef(0);
+  const outputDeviceRef = useRef<OutputDevice | null>(null);
+  const frameDelayRef = useRef<FrameDelayBuffer | null>(null);
+  const beatLookaheadRef = useRef<BeatLookahead | null>(null);
+  const replayRef = useRef<{ player: SessionPlayer; playing: boolean; speed: number; position: number; tickedAt: number } | null>(null);
+  mediaElementRef.current = mediaElement;
+  if (!beatDetectorRef.current) {
+    beatDetectorRef.current = new BeatDetector();
+  }
+  if (!tempoTrackerRef.current) {
+    tempoTrackerRef.current = new TempoTracker();
+  }
+  if (!keyDetectorRef.current) {
+    keyDetectorRef.current = new KeyDetector();
+  }
+  if (!sectionTrackerRef.current) {
+    sectionTrackerRef.current = new SectionTracker();
+  }
+  if (!signalCollectorRef.current) {
+    signalCollectorRef.current = new SignalFeatureCollector();
+  }
+  if (!recorderRef.current) {
+    recorderRef.current = new SessionRecorder();
+  }
+  if (!playbackClockRef.current) {
+    playbackClockRef.current = new PlaybackClock();
+  }
+  if (!frameBusRef.current) {
+    frameBusRef.current = new AudioFrameBus();
+  }
+  if (!frameDelayRef.current) {
+    frameDelayRef.current = new FrameDelayBuffer();
+  }
+  if (!beatLookaheadRef.current) {
+    beatLookaheadRef.current = new BeatLookahead();
+  }
+  if (!levelNormalizerRef.current) {
+    levelNormalizerRef.current = new LevelNormalizer({
+      attack: DEFAULT_ANALYSER_SETTINGS.gainAttack,
+      release: DEFAULT_ANALYSER_SETTINGS.gainRelease,
+    });
+  }
+
+  // The Web API sees the whole queue, including tracks added from other devices
+  const refreshQueue = useCallback(async () => {
+    try {
+      const response = await fetch('/api/spotify/me/player/queue');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      // Podcast episodes have no album and aren't shown
+      const items: SpotifyTrack[] = (data?.queue ?? []).filter((item: SpotifyTrack | null) => item?.album);
+      setState(prev => ({ ...prev, queue: items.map(toQueueTrack) }));
+    } catch (error) {
+      console.warn('Failed to fetch queue:', error);
+    }
+  }, []);
+
+  // Queues on whichever device is active, like the Spotify apps do
+  const addToQueue = useCallback(async (uri: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/spotify/me/player/queue?${new URLSearchParams({ uri })}`, { method: 'POST' });
+
+      if (!response.ok) {
+        setState(prev => ({
+          ...prev,
+          error: response.status === 404 ? 'No active Spotify device found' : 'Could not add to queue',
+        }));
+        return false;
+      }
+
+      await refreshQueue();
+      return true;
+    } catch (error) {
+      console.warn('Add to queue failed:', error);
+      setState(prev => ({ ...prev, error: 'Could not add to queue' }));
+      return false;
+    }
+  }, [refreshQueue]);
 
   // Fetch current track from Spotify API
   const fetchCurrentTrack = useCallback(async () => {
     try {
-      const response = await fetch('/api/spotify/me/player/currently-playing');
+      const requestedAt = performance.now();
+      // me/player is currently-playing plus shuffle, repeat and the allowed actions
+      const response = await fetch('/api/spotify/me/player');
       
       if (response.status === 204) {
+        playbackClockRef.current!.reset();
         setState(prev => ({ ...prev, currentTrack: null, isPlaying: false }));
         return;
       }
@@ -141,6 +419,7 @@ export function useSpotifyPlayer() {
       
       if (data && data.item) {
         const track: TrackInfo = {
+          id: data.item.id,
           name: data.item.name,
           artists: data.item.artists.map((artist: any) => artist.name),
           album: data.item.album.name,
@@ -148,20 +427,40 @@ export function useSpotifyPlayer() {
           duration_ms: data.item.duration_ms,
           progress_ms: data.progress_ms || 0,
           is_playing: data.is_playing,
+          isrc: data.item.external_ids?.isrc,
         };
 
+        if (currentTrackIdRef.current !== track.id) {
+          currentTrackIdRef.current = track.id;
+          refreshQueue();
+        }
+
+        // The reported progress was true somewhere mid-request
+        playbackClockRef.current!.sync({
+          trackId: track.id,
+          position: track.progress_ms,
+          duration: track.duration_ms,
+          playing: track.is_playing,
+          at: (requestedAt + performance.now()) / 2,
+        });
+
         setState(prev => ({ 
           ...prev, 
           currentTrack: track, 
           isPlaying: data.is_playing,
           isConnected: true,
-          error: null 
+          error: null,
+          playbackModes: {
+            shuffle: !!data.shuffle_state,
+            repeat: REPEAT_MODES.includes(data.repeat_state) ? data.repeat_state : 'off',
+            disallows: data.actions?.disallows ?? {},
+          },
         }));
       }
     } catch (error) {
       console.warn('Spotify API request failed:', error);
     }
-  }, []);
+  }, [refreshQueue]);
 
   // Get access token for Spotify Web Playback SDK
   const getAccessToken = useCallback(async (): Promise<string | null> => {
@@ -201,8 +500,17 @@ export function useSpotifyPlayer() {
       if (!audioContextRef.current) {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
         analyserRef.current = audioContextRef.current.createAnalyser();
-        analyserRef.current.fftSize = 256; // This gives us 128 frequency bins
-        analyserRef.current.smoothingTimeConstant = 0.8;
+        analyserRef.current.fftSize = analyserSettingsRef.current.fftSize;
+        analyserRef.current.smoothingTimeConstant = analyserSettingsRef.current.smoothing;
+        // Sources that aren't already audible (files) are heard through this; it also keeps the graph pulled
+        monitorRef.current = audioContextRef.current.createGain();
+        monitorRef.current.gain.value = 0;
+        analyserRef.current.connect(monitorRef.current);
+        monitorRef.current.connect(audioContextRef.current.destination);
+        stereoRef.current = new StereoAnalyser(audioContextRef.current, analyserSettingsRef.current);
+
+        // FFT, levels and onset flux on the audio thread when the browser supports it
+        workletRef.current = await AnalysisWorkletClient.create(audioContextRef.current, analyserSettingsRef.current);
       }
 
       if (audioContextRef.current.state === 'suspended') {
@@ -225,6 +533,45 @@ export function useSpotifyPlayer() {
     }
   }, []);
 
+  // Apply new FFT/smoothing/band settings to the live analyser
+  const updateAnalyserSettings = useCallback((settings: Partial<AnalyserSettings>) => {
+    const next = { ...analyserSettingsRef.current, ...settings };
+    analyserSettingsRef.current = next;
+
+    if (analyserRef.current) {
+      try {
+        analyserRef.current.fftSize = next.fftSize;
+        analyserRef.current.smoothingTimeConstant = next.smoothing;
+      } catch (error) {
+        console.warn('Invalid analyser settings:', error);
+      }
+    }
+    stereoRef.current?.configure(next);
+    workletRef.current?.configure(next);
+    levelNormalizerRef.current!.configure({ attack: next.gainAttack, release: next.gainRelease });
+
+    setState(prev => ({ ...prev, analyserSettings: next }));
+  }, []);
+
+  // Band mapping is rebuilt only when the bin count, sample rate or band settings change
+  const getBandMapping = useCallback((binCount: number, sampleRate: number) => {
+    const { bandCount, bandScale } = analyserSettingsRef.current;
+    const cached = bandMappingRef.current;
+
+    if (
+      cached &&
+      cached.binCount === binCount &&
+      cached.sampleRate === sampleRate &&
+      cached.bands.length === bandCount &&
+      cached.scale === bandScale
+    ) {
+      return cached;
+    }
+
+    bandMappingRef.current = createBandMapping(sampleRate, binCount, bandCount, bandScale);
+    return bandMappingRef.current;
+  }, []);
+
   // Transfer playback to Web Playback SDK device
   const transferPlaybackToDevice = useCallback(async (deviceId: string) => {
     try {
@@ -242,7 +589,7 @@ export function useSpotifyPlayer() {
       });
 
       if (response.ok || response.status === 204) {
-        console.log('Playback transferred successfully to Web Playback SDK');
+        console.log('Playback transferred successfully to', deviceId);
         setState(prev => ({ ...prev, error: null }));
         return true;
       } else {
@@ -255,11 +602,96 @@ export function useSpotifyPlayer() {
     }
   }, []);
 
+  // Starts playback on this tab's SDK device, which also moves playback here from any other
+  // device; before the SDK is ready it falls back to whichever device is active
+  const playOnDevice = useCallback(async (target: PlayTarget): Promise<boolean> => {
+    // In remote mode it plays wherever playback already is
+    const deviceId = remoteModeRef.current ? null : deviceIdRef.current;
+    const query = deviceId ? `?${new URLSearchParams({ device_id: deviceId })}` : '';
+    const body = target.contextUri
+      ? { context_uri: target.contextUri, ...(target.offsetUri ? { offset: { uri: target.offsetUri } } : {}) }
+      : { uris: target.uris ?? [] };
+
+    try {
+      const response = await fetch(`/api/spotify/me/player/play${query}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        setState(prev => ({
+          ...prev,
+          error: response.status === 404 ? 'No active Spotify device found' : 'Could not start playback',
+        }));
+        return false;
+      }
+
+      setState(prev => ({ ...prev, error: null }));
+      // The SDK reports the new track itself; without it, poll sooner than the usual interval
+      if (!playerRef.current) setTimeout(fetchCurrentTrack, 1000);
+      return true;
+    } catch (error) {
+      console.warn('Failed to start playback:', error);
+      setState(prev => ({ ...prev, error: 'Could not start playback' }));
+      return false;
+    }
+  }, [fetchCurrentTrack]);
+
 
 
 
 
-  // Connect to real audio using modern tab audio capture
+  // Swap the analysed input; the previous source is released first so capture streams don't pile up.
+  // Resolves false when a newer switch started while this one was opening; its source is closed.
+  const connectSource = useCallback(async (source: AudioSource | null): Promise<boolean> => {
+    const context = audioContextRef.current;
+    const analyser = analyserRef.current;
+    if (!context || !analyser) return false;
+
+    const request = ++connectRequestRef.current;
+
+    sourceRef.current?.disconnect();
+    sourceRef.current = null;
+    monitorRef.current!.gain.value = 0;
+    // Whatever the detectors learned belongs to the old input
+    analysisPathRef.current = null;
+
+    if (source) {
+      let node: AudioNode;
+      try {
+        node = await source.connect(context);
+      } catch (error) {
+        // A failure nobody is waiting for any more isn't worth reporting
+        if (request !== connectRequestRef.current) return false;
+        throw error;
+      }
+      if (request !== connectRequestRef.current) {
+        source.disconnect();
+        return false;
+      }
+      node.connect(analyser);
+      if (stereoRef.current) node.connect(stereoRef.current.input);
+      if (workletRef.current) node.connect(workletRef.current.node);
+      monitorRef.current!.gain.value = source.monitor ? 1 : 0;
+      sourceRef.current = source;
+    }
+
+    setState(prev => ({ ...prev, audioSource: source ? describeSource(source) : null }));
+    return true;
+  }, []);
+
+  // Labels only appear once an input has been opened, so this is re-run after connecting one
+  const refreshInputDevices = useCallback(async () => {
+    try {
+      const inputDevices = await listInputDevices();
+      setState(prev => ({ ...prev, inputDevices }));
+    } catch (error) {
+      console.warn('Could not list audio inputs:', error);
+    }
+  }, []);
+
+  // Default source when nothing has been picked: the local element, else tab capture, else the microphone
   const connectAudioAnalyser = useCallback(async (player?: SpotifyPlayer) => {
     try {
       // Don't initialize audio context automatically - wait for user interaction
@@ -280,53 +712,33 @@ export function useSpotifyPlayer() {
       }
 
       audioConnectionAttemptRef.current = true;
-      console.log('Starting modern audio capture...');
 
-      // Method 1: Capture tab audio using getDisplayMedia (MODERN APPROACH)
+      // Local files play through our own element, so there is nothing to capture
+      if (mediaElementRef.current) {
+        if (!(await connectSource(new MediaElementSource(mediaElementRef.current)))) return;
+        console.log('✓ Connected to local audio element');
+        setState(prev => ({ ...prev, error: null }));
+        return;
+      }
+
+      // Method 1: Capture tab audio using getDisplayMedia (MODERN APPROACH). In remote mode
+      // the tab is silent, so go straight to the microphone.
       console.log('Attempting to capture tab audio with getDisplayMedia...');
       try {
-        if ('getDisplayMedia' in navigator.mediaDevices) {
-          // Request tab audio capture (video required by browsers for security)
-          const stream = await navigator.mediaDevices.getDisplayMedia({
-            video: true, // Required by browsers even if we don't use it
-            audio: {
-              echoCancellation: false,
-              noiseSuppression: false,
-              autoGainControl: false,
-              sampleRate: 44100,
-              channelCount: 2
-            },
-            preferCurrentTab: true // Prioritize current tab
-          } as any);
-          
-          if (stream.getAudioTracks().length > 0) {
-            console.log('✓ Got tab audio stream, connecting to analyser...');
-            
-            // Create audio source from the captured stream
-            const source = audioContextRef.current.createMediaStreamSource(stream);
-            
-            // Connect: captured audio -> analyser -> speakers
-            source.connect(analyserRef.current);
-            analyserRef.current.connect(audioContextRef.current.destination);
-            
-            sourceRef.current = source;
-            
-            console.log('✓ Successfully connected to real tab audio!');
-            setState(prev => ({ 
-              ...prev, 
-              error: null 
-            }));
-            return;
-          }
+        if ('getDisplayMedia' in navigator.mediaDevices && !remoteModeRef.current) {
+          if (!(await connectSource(new TabCaptureSource()))) return;
+          console.log('✓ Successfully connected to real tab audio!');
+          setState(prev => ({ ...prev, error: null }));
+          return;
         }
       } catch (displayError) {
         console.warn('Tab audio capture failed:', displayError);
-        
+
         // Check if user denied permission
-        if (displayError.name === 'NotAllowedError') {
-          setState(prev => ({ 
-            ...prev, 
-            error: 'Audio capture permission denied - using simulated visualization' 
+        if (displayError instanceof Error && displayError.name === 'NotAllowedError') {
+          setState(prev => ({
+            ...prev,
+            error: 'Audio capture permission denied - using simulated visualization'
           }));
         }
       }
@@ -334,26 +746,14 @@ export function useSpotifyPlayer() {
       // Method 2: Fallback to microphone (for testing)
       console.log('Trying microphone as fallback...');
       try {
-        if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-          const stream = await navigator.mediaDevices.getUserMedia({ 
-            audio: {
-              echoCancellation: false,
-              noiseSuppression: false,
-              autoGainControl: false,
-              sampleRate: 44100
-            } 
-          });
-          
-          const source = audioContextRef.current.createMediaStreamSource(stream);
-          source.connect(analyserRef.current);
-          analyserRef.current.connect(audioContextRef.current.destination);
-          
-          sourceRef.current = source;
-          
+        if ('getUserMedia' in navigator.mediaDevices) {
+          if (!(await connectSource(new InputDeviceSource()))) return;
+          if (remoteModeRef.current) remoteSourceRef.current = sourceRef.current;
+          refreshInputDevices();
           console.log('✓ Connected to microphone audio as fallback');
-          setState(prev => ({ 
-            ...prev, 
-            error: 'Using microphone - play Spotify loudly for visualization' 
+          setState(prev => ({
+            ...prev,
+            error: remoteModeRef.current ? null : 'Using microphone - play Spotify loudly for visualization'
           }));
           return;
         }
@@ -363,23 +763,138 @@ export function useSpotifyPlayer() {
 
       // Method 3: Fallback to simulated data
       console.warn('All real audio methods failed - using simulated visualization');
-      setState(prev => ({ 
-        ...prev, 
-        error: 'No audio access - using simulated visualization' 
+      setState(prev => ({
+        ...prev,
+        error: 'No audio access - using simulated visualization'
       }));
 
     } catch (error) {
       console.error('Failed to connect audio analyser:', error);
-      setState(prev => ({ 
-        ...prev, 
-        error: 'Audio connection failed - using simulated data' 
+      setState(prev => ({
+        ...prev,
+        error: 'Audio connection failed - using simulated data'
       }));
     } finally {
       // Reset the connection attempt flag
       audioConnectionAttemptRef.current = false;
     }
+  }, [connectSource, refreshInputDevices]);
+
+  // Offsets are per output device, since Bluetooth and wired outputs lag very differently
+  const refreshOutputDevice = useCallback(async () => {
+    const device = await getOutputDevice(audioContextRef.current);
+    const offset = loadLatencyOffset(device);
+    outputDeviceRef.current = device;
+    latencyOffsetRef.current = offset;
+    setState(prev => ({ ...prev, outputDevice: device, latencyOffset: offset }));
+  }, []);
+
+  const setLatencyOffset = useCallback((offset: number) => {
+    const value = clampLatency(offset);
+    latencyOffsetRef.current = value;
+    if (outputDeviceRef.current) saveLatencyOffset(outputDeviceRef.current, value);
+    setState(prev => ({ ...prev, latencyOffset: value }));
   }, []);
 
+  // Explicit choice from the source picker; 'none' goes back to simulated data. Resolves
+  // false if another source was picked before this one finished opening.
+  const selectAudioSource = useCallback(async (id: string, file?: File): Promise<boolean> => {
+    const request = ++connectRequestRef.current;
+    await initializeAudioContext();
+    if (request !== connectRequestRef.current) return false;
+
+    let source: AudioSource | null = null;
+    if (id === 'tab') {
+      source = new TabCaptureSource();
+    } else if (id.startsWith('device:')) {
+      const deviceId = id.slice('device:'.length);
+      const device = state.inputDevices.find(input => input.deviceId === deviceId);
+      source = deviceId === 'default' ? new InputDeviceSource() : new InputDeviceSource(deviceId, device?.label);
+    } else if (id === 'element' && mediaElementRef.current) {
+      source = new MediaElementSource(mediaElementRef.current);
+    } else if (id === 'file' && file) {
+      source = new FileSource(file);
+    } else if (id === 'test') {
+      source = new TestSignalSource();
+    }
+
+    try {
+      if (!(await connectSource(source))) return false;
+      setState(prev => ({ ...prev, error: null }));
+      if (source?.kind === 'device') refreshInputDevices();
+      return true;
+    } catch (error) {
+      console.warn(`Failed to open ${source?.label}:`, error);
+      source?.disconnect();
+      setState(prev => ({
+        ...prev,
+        audioSource: null,
+        error: `Couldn't open ${source?.label ?? 'audio source'} - using simulated visualization`,
+      }));
+      return false;
+    }
+  }, [state.inputDevices, initializeAudioContext, connectSource, refreshInputDevices]);
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      const devices = await fetchDevices(deviceIdRef.current);
+      setState(prev => ({ ...prev, devices }));
+    } catch (error) {
+      console.warn('Failed to list Spotify devices:', error);
+    }
+  }, []);
+
+  // Remote mode leaves playback where it is; this tab's capture would be silent, so the
+  // visuals move to an input unless the user already picked one. Leaving it brings playback
+  // back to this tab's player and goes back to tab capture, but only if the input is still
+  // the one chosen here. The capture is asked for before the transfer goes out, while the
+  // click that got us here still counts as a user gesture.
+  const setRemoteMode = useCallback(async (remote: boolean): Promise<boolean> => {
+    remoteModeRef.current = remote;
+    saveRemoteMode(remote);
+    setState(prev => ({ ...prev, remoteMode: remote }));
+
+    const kind = sourceRef.current?.kind;
+    let sourceSwitch: Promise<unknown> = Promise.resolve();
+    if (remote && audioContextRef.current && (!kind || kind === 'tab')) {
+      sourceSwitch = selectAudioSource('device:default').then(switched => {
+        if (switched) remoteSourceRef.current = sourceRef.current;
+      });
+    } else if (!remote && sourceRef.current && sourceRef.current === remoteSourceRef.current) {
+      sourceSwitch = selectAudioSource('tab');
+    }
+
+    const transfer = !remote && deviceIdRef.current
+      ? transferPlaybackToDevice(deviceIdRef.current)
+      : Promise.resolve(true);
+    const [transferred] = await Promise.all([transfer, sourceSwitch]);
+    if (!transferred) setState(prev => ({ ...prev, error: 'Could not transfer playback' }));
+
+    if (!remote) remoteSourceRef.current = null;
+    if (remote) fetchCurrentTrack();
+    return transferred;
+  }, [selectAudioSource, transferPlaybackToDevice, fetchCurrentTrack]);
+
+  // Moving playback to another device switches to remote mode; moving it back here leaves it
+  const transferPlayback = useCallback(async (deviceId: string) => {
+    if (deviceId === deviceIdRef.current) {
+      if (!(await setRemoteMode(false))) return false;
+    } else {
+      if (!(await transferPlaybackToDevice(deviceId))) {
+        setState(prev => ({ ...prev, error: 'Could not transfer playback' }));
+        return false;
+      }
+      await setRemoteMode(true);
+    }
+
+    // Connect takes a moment to report the new active device
+    setTimeout(() => {
+      refreshDevices();
+      fetchCurrentTrack();
+    }, 1000);
+    return true;
+  }, [transferPlaybackToDevice, setRemoteMode, refreshDevices, fetchCurrentTrack]);
+
   // User-triggered audio activation - the key user gesture
   const activateAudio = useCallback(async () => {
     console.log('🚀 User activated audio visualization...');
@@ -390,7 +905,7 @@ export function useSpotifyPlayer() {
       console.log('✓ Audio context ready');
       
       // Step 2: Ensure we have an active Spotify device
-      if (deviceIdRef.current) {
+      if (deviceIdRef.current && !remoteModeRef.current) {
         console.log('Ensuring playback is on this device...');
         const transferred = await transferPlaybackToDevice(deviceIdRef.current);
         if (transferred) {
@@ -443,10 +958,13 @@ export function useSpotifyPlayer() {
         deviceIdRef.current = device_id;
         setState(prev => ({ ...prev, isConnected: true, error: null }));
         
-        // Transfer playback to this device to make SDK controls work instantly
-        const transferred = await transferPlaybackToDevice(device_id);
-        if (transferred) {
-          console.log('Web Playback SDK is now the active device - instant controls enabled!');
+        // Transfer playback to this device to make SDK controls work instantly, unless the
+        // user has chosen to keep it on another device
+        if (!remoteModeRef.current) {
+          const transferred = await transferPlaybackToDevice(device_id);
+          if (transferred) {
+            console.log('Web Playback SDK is now the active device - instant controls enabled!');
+          }
         }
         
         // Only try to connect audio if audio context is already ready (user has interacted)
@@ -467,6 +985,7 @@ export function useSpotifyPlayer() {
 
         const track = state.track_window.current_track;
         const trackInfo: TrackInfo = {
+          id: track.id,
           name: track.name,
           artists: track.artists.map(artist => artist.name),
           album: track.album.name,
@@ -476,11 +995,29 @@ export function useSpotifyPlayer() {
           is_playing: !state.paused,
         };
 
+        playbackClockRef.current!.sync({
+          trackId: track.id,
+          position: state.position,
+          duration: track.duration_ms,
+          playing: !state.paused,
+        });
+
+        // The SDK only looks two tracks ahead, so the full queue is fetched when the track changes
+        const trackChanged = currentTrackIdRef.current !== track.id;
+        currentTrackIdRef.current = track.id;
+
         setState(prev => ({
           ...prev,
           currentTrack: trackInfo,
           isPlaying: !state.paused,
+          queue: trackChanged ? state.track_window.next_tracks.map(toQueueTrack) : prev.queue,
+          playbackModes: {
+            shuffle: state.shuffle,
+            repeat: REPEAT_MODES[state.repeat_mode] ?? 'off',
+            disallows: state.disallows,
+          },
         }));
+        if (trackChanged) refreshQueue();
 
         // Try to connect audio analyser when music starts playing (only if audio context is ready)
         if (!state.paused && !sourceRef.current && audioContextRef.current) {
@@ -532,137 +1069,492 @@ export function useSpotifyPlayer() {
       // Fall back to API-based approach
       await initializeAudioContext();
     }
-  }, [getAccessToken, initializeSpotifySDK, connectAudioAnalyser, transferPlaybackToDevice]);
+  }, [getAccessToken, initializeSpotifySDK, connectAudioAnalyser, transferPlaybackToDevice, refreshQueue]);
 
 
 
-  // Enhanced simulated audio data based on track information
+  // Smooth playback position in ms, safe to call every frame; null when nothing is loaded.
+  // A local element is read directly since it always knows exactly where it is.
+  const getPlaybackPosition = useCallback((): number | null => {
+    const element = mediaElementRef.current;
+    if (element) return Number.isFinite(element.duration) ? element.currentTime * 1000 : null;
+    return playbackClockRef.current!.getPosition();
+  }, []);
+
+  const getPlaybackDuration = useCallback((): number => {
+    const element = mediaElementRef.current;
+    if (element) return Number.isFinite(element.duration) ? element.duration * 1000 : 0;
+    return playbackClockRef.current!.duration;
+  }, []);
+
+  // Seeded by track id and driven by the track's features, so the same track always gives the same frames
   const generateSimulatedAudioData = useCallback(() => {
-    if (state.isPlaying && state.currentTrack) {
-      // Generate more realistic audio visualization data based on track info
-      const frequencies = new Uint8Array(128);
-      const time = Date.now() / 1000;
-      const trackProgress = state.currentTrack.progress_ms / state.currentTrack.duration_ms;
-      
-      // Create different patterns based on track name/artist for variety
-      const trackSeed = state.currentTrack.name.length + state.currentTrack.artists.join('').length;
-      const artistVariation = trackSeed % 5;
-      
-      for (let i = 0; i < frequencies.length; i++) {
-        // Base frequency pattern
-        let value = Math.sin(time * (2 + artistVariation * 0.5) + i * 0.1) * 40;
-        
-        // Add track-specific variations
-        value += Math.sin(time * (3 + trackSeed * 0.01) + i * 0.05) * 30;
-        
-        // Add some progression based on track progress
-        value += Math.sin(trackProgress * Math.PI * 2 + i * 0.02) * 20;
-        
-        // Add randomness for realism
-        value += (Math.random() - 0.5) * 25;
-        
-        // Normalize to 0-255 range
-        frequencies[i] = Math.max(0, Math.min(255, value + 120));
+    const track = state.currentTrack;
+    const trackPosition = getPlaybackPosition();
+
+    if (state.isPlaying && track && trackPosition !== null) {
+      // Simulated frames are a function of position, so latency is an exact shift either way
+      const position = Math.max(0, trackPosition - latencyOffsetRef.current);
+      const features = state.trackAnalysis;
+      const key = `${track.id}|${features?.tempo}|${features?.energy}|${track.duration_ms}`;
+      if (simulatorRef.current?.key !== key) {
+        simulatorRef.current = {
+          key,
+          simulator: new AudioSimulator({
+            id: track.id,
+            tempo: features?.tempo,
+            energy: features?.energy,
+            danceability: features?.danceability,
+            durationMs: track.duration_ms,
+          }),
+          section: null,
+        };
       }
 
-      // Create dynamic levels that change with the track
-      const bassLevel = (Math.sin(time * (2 + artistVariation)) * 0.3 + 0.5) * (0.7 + trackProgress * 0.3);
-      const midLevel = (Math.sin(time * (2.5 + artistVariation * 0.3)) * 0.3 + 0.5) * (0.6 + Math.sin(trackProgress * Math.PI) * 0.4);
-      const trebleLevel = (Math.sin(time * (3 + artistVariation * 0.7)) * 0.3 + 0.5) * (0.5 + trackProgress * 0.5);
-
-      setState(prev => ({
-        ...prev,
-        audioData: {
-          frequencies,
-          volume: 0.5 + Math.sin(time * 1.5) * 0.2 + trackProgress * 0.3,
-          bassLevel: Math.max(0, Math.min(1, bassLevel)),
-          midLevel: Math.max(0, Math.min(1, midLevel)),
-          trebleLevel: Math.max(0, Math.min(1, trebleLevel)),
+      const sampleRate = audioContextRef.current?.sampleRate ?? 44100;
+      const simulated = simulatorRef.current.simulator.frameAt(position, analyserSettingsRef.current.fftSize / 2, sampleRate);
+      const frequencies = simulated.frequencies;
+      const mapping = getBandMapping(frequencies.length, sampleRate);
+      const now = performance.now();
+      const detection = beatDetectorRef.current!.process(frequencies, now, mapping.levels.bass.end);
+
+      // The song template says exactly which section this is; it has no trend or novelty to report
+      const previous = simulatorRef.current.section;
+      const event: SectionEvent | null = previous && previous.current !== simulated.section
+        ? {
+          type: simulated.section,
+          previous: previous.current,
+          time: now,
+          intensity: Math.min(1, Math.abs(simulated.intensity - previous.energy) * 2),
         }
-      }));
+        : null;
+      const section: SectionState = {
+        current: simulated.section,
+        startedAt: previous && !event ? previous.startedAt : now,
+        energy: simulated.intensity,
+        trend: 0,
+        novelty: 0,
+        event,
+      };
+      simulatorRef.current.section = section;
+      if (event) sectionTrackerRef.current!.dispatch(event);
+
+      // Simulated levels are already in range, so they skip gain normalisation
+      const levels = {
+        volume: frequencies.reduce((sum, value) => sum + value, 0) / (frequencies.length * 255),
+        ...getLevels(frequencies, mapping),
+      };
+      const waveform = synthesizeWaveform(position / 1000, levels, sampleRate);
+      const waveformStats = getWaveformStats(waveform);
+      const bands = mapBands(frequencies, mapping);
+      const audioData: AudioData = {
+        frequencies,
+        bands,
+        rawBands: bands,
+        waveform,
+        ...waveformStats,
+        ...levels,
+        rawLevels: levels,
+        onset: detection.onset,
+        beat: detection.beat,
+        beatPulse: simulated.beatPulse,
+        tempo: null,
+        stereo: simulateStereo(position / 1000, { bands, rms: waveformStats.rms, ...levels }),
+        chroma: new Float32Array(12),
+        key: null,
+        section,
+      };
+
+      frameBusRef.current!.publish(audioData);
     } else {
       // Silent state
+      beatDetectorRef.current!.reset();
+      frameBusRef.current!.publish({
+        frequencies: new Uint8Array(analyserSettingsRef.current.fftSize / 2),
+        bands: new Float32Array(analyserSettingsRef.current.bandCount),
+        rawBands: new Float32Array(analyserSettingsRef.current.bandCount),
+        waveform: new Float32Array(WAVEFORM_SIZE),
+        rms: 0,
+        peak: 0,
+        crestFactor: 0,
+        volume: 0,
+        bassLevel: 0,
+        midLevel: 0,
+        trebleLevel: 0,
+        rawLevels: { volume: 0, bassLevel: 0, midLevel: 0, trebleLevel: 0 },
+        onset: null,
+        beat: null,
+        beatPulse: 0,
+        tempo: null,
+        stereo: createSilentStereo(analyserSettingsRef.current.bandCount),
+        chroma: new Float32Array(12),
+        key: null,
+        section: null,
+      });
+    }
+  }, [state.isPlaying, state.currentTrack, state.trackAnalysis, getBandMapping, getPlaybackPosition]);
+
+  // The channel analysers always run on the main thread, beside either mono path
+  const analyseStereo = useCallback((sampleRate: number): StereoImage => {
+    const stereo = stereoRef.current;
+    if (!stereo) return createSilentStereo(analyserSettingsRef.current.bandCount);
+    return stereo.analyse(getBandMapping(stereo.binCount, sampleRate));
+  }, [getBandMapping]);
+
+  // Normalised levels go in the usual fields so fixed thresholds behave the same on every
+  // track and capture source; the raw values ride along for anything that needs them
+  const applyGainControl = useCallback((rawLevels: Levels, rawBands: Float32Array, time: number) => {
+    if (!analyserSettingsRef.current.autoGain) {
+      return { ...rawLevels, bands: rawBands, rawLevels, rawBands };
+    }
+
+    const normalized = levelNormalizerRef.current!.process(rawLevels, rawBands, time);
+    return { ...normalized.levels, bands: normalized.bands, rawLevels, rawBands };
+  }, []);
+
+  // Outro detection needs to know where the track is
+  const getTrackProgress = useCallback((): number | undefined => {
+    const position = getPlaybackPosition();
+    const duration = getPlaybackDuration();
+    if (position === null || duration <= 0) return undefined;
+    return Math.min(1, position / duration);
+  }, [getPlaybackPosition, getPlaybackDuration]);
+
+  // Section tracking wants the un-normalised levels, since gain control flattens builds and drops
+  const trackSections = useCallback((rawLevels: Levels, rawBands: Float32Array, time: number) => {
+    return sectionTrackerRef.current!.process(
+      { energy: rawLevels.volume, bands: rawBands, progress: getTrackProgress() },
+      time
+    );
+  }, [getTrackProgress]);
+
+  // Read one frame from the AnalyserNode on the main thread
+  const processAnalyserFrame = useCallback((analyser: AnalyserNode, context: AudioContext): AudioData => {
+    const bufferLength = analyser.frequencyBinCount; // fftSize / 2 frequency bins
+    const frequencies = new Uint8Array(bufferLength);
+    analyser.getByteFrequencyData(frequencies);
+
+    // Raw signal for oscilloscope-style modes; stats use the whole FFT window
+    const timeDomain = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(timeDomain);
+
+    // Calculate bass/mid/treble levels and perceptual bands from Hz-based bin ranges
+    const mapping = getBandMapping(bufferLength, context.sampleRate);
+    const { bassLevel, midLevel, trebleLevel } = getLevels(frequencies, mapping);
+
+    // Calculate overall volume
+    const totalSum = frequencies.reduce((sum, val) => sum + val, 0);
+    const volume = totalSum / (bufferLength * 255);
+
+    // Spectral-flux onset and beat detection on the same frame, feeding the tempo tracker
+    const now = context.currentTime * 1000;
+    const detection = beatDetectorRef.current!.process(frequencies, now, mapping.levels.bass.end);
+    const tempo = tempoTrackerRef.current!.process(detection.flux, now);
+    const harmony = keyDetectorRef.current!.process(frequencies, context.sampleRate, now);
+    const levels = applyGainControl({ volume, bassLevel, midLevel, trebleLevel }, mapBands(frequencies, mapping), now);
+
+    return {
+      frequencies,
+      waveform: timeDomain.subarray(Math.max(0, timeDomain.length - WAVEFORM_SIZE)),
+      ...getWaveformStats(timeDomain),
+      ...levels,
+      onset: detection.onset,
+      beat: detection.beat,
+      beatPulse: detection.pulse,
+      tempo,
+      stereo: analyseStereo(context.sampleRate),
+      chroma: harmony.chroma,
+      key: harmony.key,
+      section: trackSections(levels.rawLevels, levels.rawBands, now),
+    };
+  }, [getBandMapping, analyseStereo, applyGainControl, trackSections]);
+
+  // Consume every frame the audio thread published since the last animation frame so
+  // onsets aren't lost when rendering is slow; returns null when nothing new arrived
+  const processWorkletFrames = useCallback((worklet: AnalysisWorkletClient): AudioData | null => {
+    const frames = worklet.drainFrames();
+    if (frames.length === 0) return null;
+
+    let onset: OnsetEvent | null = null;
+    let beat: BeatEvent | null = null;
+    let pulse = 0;
+    let tempo: TempoEstimate | null = null;
+
+    for (const frame of frames) {
+      const time = frame.time * 1000;
+      const detection = beatDetectorRef.current!.processFlux(frame.flux, frame.lowFlux, time);
+      tempo = tempoTrackerRef.current!.process(detection.flux, time);
+      pulse = detection.pulse;
+
+      if (detection.onset && (!onset || detection.onset.strength > onset.strength)) onset = detection.onset;
+      if (detection.beat && (!beat || detection.beat.strength > beat.strength)) beat = detection.beat;
+    }
+
+    const latest = frames[frames.length - 1];
+    const sampleRate = audioContextRef.current?.sampleRate ?? 44100;
+    const mapping = getBandMapping(latest.frequencies.length, sampleRate);
+    const latestTime = latest.time * 1000;
+    const harmony = keyDetectorRef.current!.process(latest.frequencies, sampleRate, latestTime);
+    const levels = applyGainControl(
+      { volume: latest.volume, bassLevel: latest.bassLevel, midLevel: latest.midLevel, trebleLevel: latest.trebleLevel },
+      mapBands(latest.frequencies, mapping),
+      latestTime
+    );
+
+    return {
+      frequencies: latest.frequencies,
+      waveform: latest.waveform,
+      rms: latest.rms,
+      peak: latest.peak,
+      crestFactor: latest.rms > 1e-6 ? latest.peak / latest.rms : 0,
+      ...levels,
+      onset,
+      beat,
+      beatPulse: pulse,
+      tempo,
+      stereo: analyseStereo(sampleRate),
+      chroma: harmony.chroma,
+      key: harmony.key,
+      section: trackSections(levels.rawLevels, levels.rawBands, latestTime),
+    };
+  }, [getBandMapping, analyseStereo, applyGainControl, trackSections]);
+
+  // The first stretch of real audio for each track replaces the name-based feature guesses
+  const collectSignalFeatures = useCallback((frame: AudioData) => {
+    const collector = signalCollectorRef.current!;
+    if (collector.isReady) return;
+
+    collector.addFrame({
+      time: performance.now(),
+      frequencies: frame.frequencies,
+      sampleRate: audioContextRef.current?.sampleRate ?? 44100,
+      rms: frame.rms,
+      bassLevel: frame.rawLevels.bassLevel,
+      midLevel: frame.rawLevels.midLevel,
+      trebleLevel: frame.rawLevels.trebleLevel,
+      onset: !!frame.onset,
+      beatInterval: frame.beat?.interval ?? null,
+      tempo: frame.tempo && frame.tempo.confidence >= TEMPO_CONFIDENCE_THRESHOLD ? frame.tempo.bpm : null,
+      mode: frame.key && frame.key.confidence >= KEY_CONFIDENCE_THRESHOLD ? frame.key.mode : null,
+    });
+
+    const summary = collector.getSummary();
+    if (summary) {
       setState(prev => ({
         ...prev,
-        audioData: {
-          frequencies: new Uint8Array(128),
-          volume: 0,
-          bassLevel: 0,
-          midLevel: 0,
-          trebleLevel: 0,
-        }
+        trackAnalysis: prev.currentTrack ? getTrackAudioFeatures(toTrackMetadata(prev.currentTrack), summary) : null,
       }));
     }
-  }, [state.isPlaying, state.currentTrack]);
+  }, []);
+
+  const getReplayStatus = useCallback((): ReplayStatus | null => {
+    const replay = replayRef.current;
+    if (!replay) return null;
+    const { session } = replay.player;
+    return {
+      track: session.track,
+      trackAnalysis: session.trackAnalysis,
+      frameIndex: replay.player.frameIndex,
+      frameCount: replay.player.frameCount,
+      position: replay.player.position,
+      duration: replay.player.duration,
+      playing: replay.playing,
+      speed: replay.speed,
+    };
+  }, []);
+
+  // Section boundaries are re-announced so subscribers react to a replay as they did live
+  const publishReplayFrame = useCallback((frame: ReplayFrame) => {
+    frame.sectionEvents.forEach(event => sectionTrackerRef.current!.dispatch(event));
+    frameBusRef.current!.publish(frame.data);
+  }, []);
+
+  // Replay runs on its own clock, scaled by the playback speed
+  const advanceReplay = useCallback(() => {
+    const replay = replayRef.current!;
+    const now = performance.now();
+    const elapsed = now - replay.tickedAt;
+    replay.tickedAt = now;
+    if (!replay.playing) return;
+
+    replay.position += elapsed * replay.speed;
+    publishReplayFrame(replay.player.advanceTo(replay.position));
+    // State only changes when the replay stops; the position is read through getReplayStatus
+    if (replay.player.atEnd) {
+      replay.playing = false;
+      setState(prev => ({ ...prev, replay: getReplayStatus() }));
+    }
+  }, [publishReplayFrame, getReplayStatus]);
+
+  // Delays frames for a positive offset; a negative one fires beats ahead of the audio.
+  // Returns null while delayed frames haven't come due.
+  const applyLatency = useCallback((frame: AudioData | null, time: number): AudioData | null => {
+    const offset = latencyOffsetRef.current;
+    const delayBuffer = frameDelayRef.current!;
+
+    if (offset > 0) {
+      const now = performance.now();
+      if (frame) delayBuffer.push(frame, now);
+      return delayBuffer.pull(now, offset);
+    }
+
+    delayBuffer.clear();
+    return frame && offset < 0 ? beatLookaheadRef.current!.process(frame, time, -offset) : frame;
+  }, []);
 
   // Get real-time audio data from Web Audio API or fallback to simulated
   const updateAudioData = useCallback(() => {
+    if (replayRef.current) {
+      advanceReplay();
+      animationFrameRef.current = requestAnimationFrame(() => updateAudioDataRef.current());
+      return;
+    }
+
     const hasRealAudio = !!sourceRef.current && analyserRef.current;
     
     if (hasRealAudio && state.isPlaying) {
       // Use real audio analysis
-      const bufferLength = analyserRef.current.frequencyBinCount; // 128 frequency bins
-      const frequencies = new Uint8Array(bufferLength);
-      
       try {
-        analyserRef.current.getByteFrequencyData(frequencies);
-        
-        // Calculate audio levels from real frequency data
-        const bassEnd = Math.floor(bufferLength * 0.1); // First 10% for bass
-        const midStart = bassEnd;
-        const midEnd = Math.floor(bufferLength * 0.7); // 10-70% for mids
-        const trebleStart = midEnd; // 70-100% for treble
-        
-        // Calculate average levels for each frequency range
-        let bassSum = 0, midSum = 0, trebleSum = 0;
-        
-        for (let i = 0; i < bassEnd; i++) {
-          bassSum += frequencies[i];
-        }
-        
-        for (let i = midStart; i < midEnd; i++) {
-          midSum += frequencies[i];
+        if (analysisPathRef.current !== 'real') {
+          // Real frames run on the audio clock, so earlier simulated history no longer lines up
+          analysisPathRef.current = 'real';
+          beatDetectorRef.current!.reset();
+          tempoTrackerRef.current!.reset();
+          keyDetectorRef.current!.reset();
+          levelNormalizerRef.current!.reset();
+          sectionTrackerRef.current!.reset();
+          frameDelayRef.current!.clear();
+          beatLookaheadRef.current!.reset();
         }
-        
-        for (let i = trebleStart; i < bufferLength; i++) {
-          trebleSum += frequencies[i];
+
+        const worklet = analyserSettingsRef.current.useWorklet ? workletRef.current : null;
+        const analysed = worklet
+          ? processWorkletFrames(worklet)
+          : processAnalyserFrame(analyserRef.current!, audioContextRef.current!);
+        // Features are measured on the analysis clock; only what is shown is shifted
+        if (analysed) collectSignalFeatures(analysed);
+        const frame = applyLatency(analysed, audioContextRef.current!.currentTime * 1000);
+
+        // The audio thread hasn't published anything new since the last animation frame
+        if (frame) {
+          // Announced with the frame it arrived on, so a delayed boundary lands with the visuals
+          if (frame.section?.event) sectionTrackerRef.current!.dispatch(frame.section.event);
+          frameBusRef.current!.publish(frame);
         }
         
-        const bassLevel = bassSum / (bassEnd * 255); // Normalize to 0-1
-        const midLevel = midSum / ((midEnd - midStart) * 255);
-        const trebleLevel = trebleSum / ((bufferLength - trebleStart) * 255);
-        
-        // Calculate overall volume
-        const totalSum = frequencies.reduce((sum, val) => sum + val, 0);
-        const volume = totalSum / (bufferLength * 255);
-        
-        setState(prev => ({
-          ...prev,
-          audioData: {
-            frequencies,
-            volume,
-            bassLevel,
-            midLevel,
-            trebleLevel,
-          }
-        }));
-        
       } catch (error) {
         console.warn('Real audio analysis failed, falling back to simulated:', error);
         generateSimulatedAudioData();
       }
     } else {
       // Use simulated data when no real audio or not playing
+      if (analysisPathRef.current !== 'simulated') {
+        analysisPathRef.current = 'simulated';
+        beatDetectorRef.current!.reset();
+        tempoTrackerRef.current!.reset();
+        keyDetectorRef.current!.reset();
+        levelNormalizerRef.current!.reset();
+        sectionTrackerRef.current!.reset();
+      }
       generateSimulatedAudioData();
     }
 
-    animationFrameRef.current = requestAnimationFrame(updateAudioData);
-  }, [state.isPlaying, generateSimulatedAudioData]);
+    // Always through the ref, so the loop picks up the latest closure without being restarted
+    animationFrameRef.current = requestAnimationFrame(() => updateAudioDataRef.current());
+  }, [state.isPlaying, generateSimulatedAudioData, processWorkletFrames, processAnalyserFrame, collectSignalFeatures, applyLatency, advanceReplay]);
+  updateAudioDataRef.current = updateAudioData;
+
+  // Listeners fire once per section boundary, outside React state updates
+  const subscribeToSections = useCallback((listener: SectionListener) => {
+    return sectionTrackerRef.current!.subscribe(listener);
+  }, []);
+
+  // The recorder listens on the frame bus, so it captures whatever the visualizers are fed
+  useEffect(() => {
+    const recorder = recorderRef.current!;
+    return frameBusRef.current!.subscribe(frame => recorder.addFrame(frame));
+  }, []);
+
+  const startRecording = useCallback(() => {
+    recorderRef.current!.start({
+      track: state.currentTrack,
+      trackAnalysis: state.trackAnalysis,
+      sampleRate: audioContextRef.current?.sampleRate ?? 44100,
+    });
+    setState(prev => ({ ...prev, recording: true }));
+  }, [state.currentTrack, state.trackAnalysis]);
+
+  const stopRecording = useCallback((): RecordedSession | null => {
+    const session = recorderRef.current!.stop();
+    setState(prev => ({ ...prev, recording: false }));
+    return session;
+  }, []);
+
+  const loadReplay = useCallback((session: RecordedSession) => {
+    recorderRef.current!.stop();
+    sectionTrackerRef.current!.reset();
+    replayRef.current = { player: new SessionPlayer(session), playing: true, speed: 1, position: 0, tickedAt: performance.now() };
+    publishReplayFrame(replayRef.current.player.seek(0));
+    setState(prev => ({ ...prev, recording: false, replay: getReplayStatus() }));
+  }, [publishReplayFrame, getReplayStatus]);
+
+  const controlReplay = useCallback((control: ReplayControl) => {
+    const replay = replayRef.current;
+    if (!replay) return;
+
+    if (control.speed !== undefined) replay.speed = control.speed;
+    if (control.playing !== undefined) {
+      // Playing from the end starts over
+      if (control.playing && replay.player.atEnd) replay.position = 0;
+      replay.playing = control.playing;
+      replay.tickedAt = performance.now();
+    }
+
+    let frame: ReplayFrame | null = null;
+    if (control.seek !== undefined) frame = replay.player.seek(control.seek);
+    else if (control.step !== undefined) {
+      // Stepping is frame by frame, so it pauses
+      replay.playing = false;
+      frame = replay.player.step(control.step);
+    } else if (control.playing && replay.position === 0) frame = replay.player.seek(0);
+
+    if (frame) {
+      replay.position = frame.time;
+      publishReplayFrame(frame);
+    }
+    setState(prev => ({ ...prev, replay: getReplayStatus() }));
+  }, [publishReplayFrame, getReplayStatus]);
+
+  const closeReplay = useCallback(() => {
+    replayRef.current = null;
+    analysisPathRef.current = null; // Live detectors restart from scratch
+    setState(prev => ({ ...prev, replay: null }));
+  }, []);
+
+  // A new track invalidates the onset history, tempo, key and section estimates, and
+  // its features start from the name heuristics until enough audio has been captured
+  useEffect(() => {
+    beatDetectorRef.current!.reset();
+    tempoTrackerRef.current!.reset();
+    keyDetectorRef.current!.reset();
+    levelNormalizerRef.current!.reset();
+    sectionTrackerRef.current!.reset();
+    signalCollectorRef.current!.reset();
+    beatLookaheadRef.current!.reset();
+    setState(prev => ({
+      ...prev,
+      trackAnalysis: prev.currentTrack ? getTrackAudioFeatures(toTrackMetadata(prev.currentTrack), null) : null,
+    }));
+  }, [state.currentTrack?.id]);
 
   // Control playback - prefer Web Playback SDK, fallback to API
   const togglePlayback = useCallback(async () => {
     try {
-      if (playerRef.current && deviceIdRef.current) {
+      const element = mediaElementRef.current;
+      if (element) {
+        if (element.paused) await element.play();
+        else element.pause();
+      } else if (playerRef.current && deviceIdRef.current && !remoteModeRef.current) {
         // Use Web Playback SDK (instant)
         console.log('Using Web Playback SDK for instant playback control');
         await playerRef.current.togglePlay();
@@ -690,9 +1582,15 @@ export function useSpotifyPlayer() {
     try {
       const clampedVolume = Math.max(0, Math.min(1, volume));
       const volumePercent = Math.round(clampedVolume * 100);
+
+      if (mediaElementRef.current) {
+        mediaElementRef.current.volume = clampedVolume;
+        setState(prev => ({ ...prev, volume: clampedVolume, error: null }));
+        return;
+      }
       
       // Try Web Playback SDK first (instant, no network delay)
-      if (playerRef.current && deviceIdRef.current) {
+      if (playerRef.current && deviceIdRef.current && !remoteModeRef.current) {
         try {
           console.log(`Setting volume to ${volumePercent}% via Web Playback SDK (instant)`);
           await playerRef.current.setVolume(clampedVolume);
@@ -725,7 +1623,10 @@ export function useSpotifyPlayer() {
 
   const skipToNext = useCallback(async () => {
     try {
-      if (playerRef.current && deviceIdRef.current) {
+      // A single local file has nothing to skip to
+      if (mediaElementRef.current) return;
+
+      if (playerRef.current && deviceIdRef.current && !remoteModeRef.current) {
         // Use Web Playback SDK (instant)
         console.log('Using Web Playback SDK for instant track skip');
         await playerRef.current.nextTrack();
@@ -746,7 +1647,9 @@ export function useSpotifyPlayer() {
 
   const skipToPrevious = useCallback(async () => {
     try {
-      if (playerRef.current && deviceIdRef.current) {
+      if (mediaElementRef.current) {
+        mediaElementRef.current.currentTime = 0;
+      } else if (playerRef.current && deviceIdRef.current && !remoteModeRef.current) {
         // Use Web Playback SDK (instant)
         console.log('Using Web Playback SDK for instant previous track');
         await playerRef.current.previousTrack();
@@ -765,11 +1668,89 @@ export function useSpotifyPlayer() {
     }
   }, [fetchCurrentTrack]);
 
+  const seek = useCallback(async (position: number) => {
+    try {
+      const element = mediaElementRef.current;
+      if (element) {
+        element.currentTime = position / 1000;
+        return;
+      }
+
+      const clamped = Math.round(Math.max(0, position));
+      if (playerRef.current && deviceIdRef.current && !remoteModeRef.current) {
+        await playerRef.current.seek(clamped);
+      } else {
+        const response = await fetch(`/api/spotify/me/player/seek?position_ms=${clamped}`, { method: 'PUT' });
+        if (!response.ok && response.status !== 204) return;
+      }
+
+      // Jump the clock now rather than wait for the next state report
+      const clock = playbackClockRef.current!;
+      if (currentTrackIdRef.current) {
+        clock.sync({
+          trackId: currentTrackIdRef.current,
+          position: clamped,
+          duration: clock.duration,
+          playing: clock.playing,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to seek:', error);
+    }
+  }, []);
+
+  // The SDK reports shuffle and repeat but can't change them, so both go through the Web API;
+  // the SDK's next player_state_changed confirms the change
+  const setShuffle = useCallback(async (shuffle: boolean) => {
+    try {
+      const response = await fetch(`/api/spotify/me/player/shuffle?state=${shuffle}`, { method: 'PUT' });
+      if (response.ok || response.status === 204) {
+        setState(prev => ({ ...prev, playbackModes: { ...prev.playbackModes, shuffle } }));
+      }
+    } catch (error) {
+      console.error('Failed to set shuffle:', error);
+    }
+  }, []);
+
+  const setRepeat = useCallback(async (repeat: RepeatMode) => {
+    try {
+      const response = await fetch(`/api/spotify/me/player/repeat?state=${repeat}`, { method: 'PUT' });
+      if (response.ok || response.status === 204) {
+        setState(prev => ({ ...prev, playbackModes: { ...prev.playbackModes, repeat } }));
+      }
+    } catch (error) {
+      console.error('Failed to set repeat:', error);
+    }
+  }, []);
+
+  // Read before the player initialises, so a remembered remote mode never grabs playback
+  useEffect(() => {
+    if (isLocal) return;
+    const remote = loadRemoteMode();
+    remoteModeRef.current = remote;
+    setState(prev => ({ ...prev, remoteMode: remote }));
+  }, [isLocal]);
+
+  // The SDK only reports its own playback, so another device's track and position are polled
+  useEffect(() => {
+    if (isLocal || !state.remoteMode) return;
+
+    fetchCurrentTrack();
+    const interval = setInterval(fetchCurrentTrack, REMOTE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isLocal, state.remoteMode, fetchCurrentTrack]);
+
   // Initialize everything
   useEffect(() => {
     let interval: NodeJS.Timeout;
 
     const initialize = async () => {
+      // Local playback needs no Spotify connection; the element drives everything
+      if (isLocal) {
+        updateAudioDataRef.current();
+        return;
+      }
+
       // Try to initialize Spotify Web Playback SDK first
       try {
         await initializePlayer();
@@ -782,7 +1763,7 @@ export function useSpotifyPlayer() {
       }
       
       // Start audio data updates
-      updateAudioData();
+      updateAudioDataRef.current();
     };
 
     initialize();
@@ -795,19 +1776,108 @@ export function useSpotifyPlayer() {
       if (playerRef.current) {
         playerRef.current.disconnect();
       }
+      // Stops capture streams too, so the browser's sharing indicator goes away
+      sourceRef.current?.disconnect();
+      sourceRef.current = null;
+      workletRef.current?.disconnect();
+      stereoRef.current?.disconnect();
       if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
         audioContextRef.current.close();
       }
     };
-  }, [initializePlayer, initializeAudioContext, fetchCurrentTrack, updateAudioData]);
+  }, [initializePlayer, initializeAudioContext, fetchCurrentTrack, isLocal]);
+
+  // Plugging in an audio interface shows up in the source picker without a reload, and
+  // switching to headphones picks up their latency offset
+  useEffect(() => {
+    const devices = navigator.mediaDevices;
+    if (!devices) return;
+
+    const refresh = () => {
+      refreshInputDevices();
+      refreshOutputDevice();
+    };
+
+    refresh();
+    devices.addEventListener('devicechange', refresh);
+    return () => devices.removeEventListener('devicechange', refresh);
+  }, [refreshInputDevices, refreshOutputDevice]);
+
+  // Element events stand in for player_state_changed; starting playback also
+  // activates analysis, since pressing play is the user gesture the context needs
+  useEffect(() => {
+    if (!mediaElement) return;
+
+    const sync = () => {
+      const playing = !mediaElement.paused && !mediaElement.ended;
+      setState(prev => ({
+        ...prev,
+        currentTrack: localTrack ? {
+          ...localTrack,
+          duration_ms: Number.isFinite(mediaElement.duration) ? mediaElement.duration * 1000 : 0,
+          progress_ms: mediaElement.currentTime * 1000,
+          is_playing: playing,
+        } : null,
+        isPlaying: playing,
+        isConnected: !!localTrack,
+        volume: mediaElement.volume,
+      }));
+    };
+
+    const handlePlay = () => {
+      sync();
+      if (!sourceRef.current) activateAudio();
+    };
+
+    const events = ['loadedmetadata', 'pause', 'seeked', 'ended'] as const;
+    events.forEach(event => mediaElement.addEventListener(event, sync));
+    mediaElement.addEventListener('play', handlePlay);
+    // Playback may have started before this component mounted
+    if (mediaElement.paused) sync();
+    else handlePlay();
+
+    return () => {
+      events.forEach(event => mediaElement.removeEventListener(event, sync));
+      mediaElement.removeEventListener('play', handlePlay);
+    };
+  }, [mediaElement, localTrack, activateAudio]);
+
+  const { replay } = state;
 
   return {
     ...state,
+    // While replaying, everything downstream sees the recorded track
+    currentTrack: replay ? replay.track : state.currentTrack,
+    isPlaying: replay ? replay.playing : state.isPlaying,
+    trackAnalysis: replay ? replay.trackAnalysis : state.trackAnalysis,
     togglePlayback,
     setVolume,
     skipToNext,
     skipToPrevious,
+    seek,
+    setShuffle,
+    setRepeat,
+    refreshDevices,
+    transferPlayback,
+    setRemoteMode,
+    audioFrames: frameBusRef.current!, // Per-frame AudioData; read it in animation loops, not renders
+    getReplayStatus,
     refreshTrack: fetchCurrentTrack,
+    refreshQueue,
+    addToQueue,
+    playOnDevice,
+    getPlaybackPosition,
+    getPlaybackDuration,
+    updateAnalyserSettings,
+    subscribeToSections,
+    selectAudioSource,
+    refreshInputDevices,
+    setLatencyOffset,
+    startRecording,
+    stopRecording,
+    loadReplay,
+    controlReplay,
+    closeReplay,
     hasRealAudio: !!sourceRef.current && !!analyserRef.current, // True if we have real audio connection
     activateAudio, // Function to activate audio after user interaction
   };
@@ -0,0 +1,139 @@
+// Main-thread side of the audio-thread analysis pipeline (public/worklets/analysis-processor.js)
+
+import { FFT_SIZE_OPTIONS, FREQUENCY_RANGES, type AnalyserSettings } from '@/lib/bandMapper';
+import { WAVEFORM_SIZE } from '@/lib/waveform';
+
+export const ANALYSIS_WORKLET_URL = '/worklets/analysis-processor.js';
+const PROCESSOR_NAME = 'waveline-analysis';
+
+// Must match the frame layout documented in the processor
+const HEADER_SIZE = 11;
+const RING_CAPACITY = 8;
+const MAX_BINS = Math.max(...FFT_SIZE_OPTIONS) / 2;
+const FRAME_STRIDE = HEADER_SIZE + MAX_BINS + WAVEFORM_SIZE;
+
+export interface AnalysisFrame {
+  time: number; // audio clock (AudioContext.currentTime) in seconds
+  frequencies: Uint8Array;
+  waveform: Float32Array; // most recent time-domain samples, -1 to 1
+  rms: number;
+  peak: number;
+  volume: number;
+  bassLevel: number;
+  midLevel: number;
+  trebleLevel: number;
+  flux: number; // full-band spectral flux
+  lowFlux: number; // bass-band spectral flux
+}
+
+function decodeFrame(data: Float32Array, offset: number): AnalysisFrame {
+  const binCount = data[offset + 9];
+  const waveformLength = data[offset + 10];
+  const frequencies = new Uint8Array(binCount);
+  for (let i = 0; i < binCount; i++) {
+    frequencies[i] = data[offset + HEADER_SIZE + i];
+  }
+
+  const waveformStart = offset + HEADER_SIZE + binCount;
+  const waveform = data.slice(waveformStart, waveformStart + waveformLength);
+
+  return {
+    time: data[offset],
+    rms: data[offset + 1],
+    peak: data[offset + 2],
+    volume: data[offset + 3],
+    bassLevel: data[offset + 4],
+    midLevel: data[offset + 5],
+    trebleLevel: data[offset + 6],
+    flux: data[offset + 7],
+    lowFlux: data[offset + 8],
+    frequencies,
+    waveform,
+  };
+}
+
+export class AnalysisWorkletClient {
+  public readonly node: AudioWorkletNode;
+  private control: Int32Array | null = null;
+  private frames: Float32Array | null = null;
+  private readCount = 0;
+  private queued: Float32Array[] = [];
+
+  private constructor(node: AudioWorkletNode, sharedBuffer: SharedArrayBuffer | null) {
+    this.node = node;
+
+    if (sharedBuffer) {
+      this.control = new Int32Array(sharedBuffer, 0, 2);
+      this.frames = new Float32Array(sharedBuffer, 8);
+    } else {
+      // Without cross-origin isolation frames arrive as transferred messages instead
+      node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        this.queued.push(event.data);
+        if (this.queued.length > RING_CAPACITY) this.queued.shift();
+      };
+    }
+  }
+
+  // Resolves to null when the browser has no AudioWorklet support or the module fails to load
+  static async create(context: AudioContext, settings: AnalyserSettings): Promise<AnalysisWorkletClient | null> {
+    if (!context.audioWorklet || typeof AudioWorkletNode === 'undefined') {
+      return null;
+    }
+
+    try {
+      await context.audioWorklet.addModule(ANALYSIS_WORKLET_URL);
+
+      const canShare = typeof SharedArrayBuffer !== 'undefined' && typeof crossOriginIsolated !== 'undefined' && crossOriginIsolated;
+      const sharedBuffer = canShare
+        ? new SharedArrayBuffer(8 + RING_CAPACITY * FRAME_STRIDE * Float32Array.BYTES_PER_ELEMENT)
+        : null;
+
+      const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        processorOptions: {
+          fftSize: settings.fftSize,
+          smoothing: settings.smoothing,
+          ranges: FREQUENCY_RANGES,
+          maxBins: MAX_BINS,
+          capacity: RING_CAPACITY,
+          sharedBuffer,
+        },
+      });
+
+      return new AnalysisWorkletClient(node, sharedBuffer);
+    } catch (error) {
+      console.warn('Analysis worklet unavailable, using AnalyserNode:', error);
+      return null;
+    }
+  }
+
+  // All frames published since the last call, oldest first (at most the ring capacity)
+  public drainFrames(): AnalysisFrame[] {
+    if (this.control && this.frames) {
+      const written = Atomics.load(this.control, 0);
+      const start = Math.max(this.readCount, written - RING_CAPACITY + 1);
+      const frames: AnalysisFrame[] = [];
+
+      for (let index = start; index < written; index++) {
+        frames.push(decodeFrame(this.frames, (index % RING_CAPACITY) * FRAME_STRIDE));
+      }
+
+      this.readCount = written;
+      return frames;
+    }
+
+    const frames = this.queued.map(data => decodeFrame(data, 0));
+    this.queued = [];
+    return frames;
+  }
+
+  public configure(settings: AnalyserSettings) {
+    this.node.port.postMessage({ type: 'configure', fftSize: settings.fftSize, smoothing: settings.smoothing });
+  }
+
+  public disconnect() {
+    this.node.port.onmessage = null;
+    this.node.disconnect();
+  }
+}
@@ -1,6 +1,11 @@
 // Enhanced audio analysis using multiple data sources
 
-interface TrackAnalysis {
+import type { SignalSummary } from '@/lib/signalFeatures';
+import { runAllProviders, runProviderChain, type ChainResult, type MetadataProvider } from '@/lib/metadataProviders';
+import { createLastFmProvider } from '@/lib/lastfm';
+import { createMusicBrainzProvider } from '@/lib/musicbrainz';
+
+export interface TrackAnalysis {
   id: string;
   energy: number;
   valence: number;
@@ -10,11 +15,70 @@ interface TrackAnalysis {
   instrumentalness?: number;
   liveness?: number;
   speechiness?: number;
-  source: 'spotify' | 'lastfm' | 'musicbrainz' | 'generated';
+  genre?: string;
+  releaseYear?: number;
+  key?: string; // e.g. "A minor"
+  source: 'spotify' | 'lastfm' | 'musicbrainz' | 'generated' | 'signal';
+}
+
+export type TrackMetadata = {
+  id: string;
+  name: string;
+  artists: { name: string }[];
+  album: { name: string; release_date: string };
+  external_ids?: { isrc?: string };
+};
+
+// Map a measure onto 0-1 between two reference points
+function scaleBetween(value: number, low: number, high: number): number {
+  return Math.max(0, Math.min(1, (value - low) / (high - low)));
+}
+
+// Estimate audio features from the captured signal instead of the track name
+export function estimateAudioFeaturesFromSignal(id: string, summary: SignalSummary): TrackAnalysis {
+  const loudness = scaleBetween(summary.loudnessDb, -40, -8);
+  const brightness = scaleBetween(summary.centroidHz, 800, 4000);
+  const busyness = scaleBetween(summary.onsetDensity, 0.5, 6);
+  const compression = 1 - scaleBetween(summary.dynamicRangeDb, 6, 30);
+  const tempo = summary.tempo ?? 120;
+  // Dance music clusters around 120-130 BPM
+  const tempoFit = Math.exp(-0.5 * (Math.log2(tempo / 124) / 0.25) ** 2);
+
+  const energy = loudness * 0.35 + busyness * 0.25 + brightness * 0.2 + compression * 0.2;
+  const danceability = summary.beatRegularity * 0.5 + scaleBetween(summary.bassShare, 0.2, 0.5) * 0.25 + tempoFit * 0.25;
+  // Acoustic recordings keep their dynamics, carry less sub-bass and are rarely noise-like
+  const acousticness =
+    (1 - compression) * 0.45 + (1 - scaleBetween(summary.bassShare, 0.25, 0.55)) * 0.3 + (1 - scaleBetween(summary.flatness, 0.1, 0.4)) * 0.25;
+  // Vocals make the mid band move independently of the rest of the mix
+  const instrumentalness = 1 - scaleBetween(summary.midModulation, 0.02, 0.25);
+  // Crowd noise and room sound raise spectral flatness and blur the beat
+  const liveness = scaleBetween(summary.flatness, 0.15, 0.45) * 0.6 + (1 - summary.beatRegularity) * 0.4;
+  const modeValence = summary.mode === 'major' ? 0.65 : summary.mode === 'minor' ? 0.35 : 0.5;
+  const valence = modeValence * 0.5 + brightness * 0.25 + scaleBetween(tempo, 70, 150) * 0.25;
+
+  return {
+    id,
+    energy: Math.max(0.05, Math.min(0.95, energy)),
+    valence: Math.max(0.05, Math.min(0.95, valence)),
+    tempo: Math.max(60, Math.min(200, tempo)),
+    danceability: Math.max(0.05, Math.min(0.95, danceability)),
+    acousticness: Math.max(0, Math.min(1, acousticness)),
+    instrumentalness: Math.max(0, Math.min(1, instrumentalness)),
+    liveness: Math.max(0, Math.min(1, liveness)),
+    source: 'signal',
+  };
+}
+
+// Prefer features measured from captured audio; name heuristics only when there is none
+export function getTrackAudioFeatures(track: TrackMetadata, summary: SignalSummary | null): TrackAnalysis {
+  if (summary) {
+    return estimateAudioFeaturesFromSignal(track.id, summary);
+  }
+  return generateIntelligentAudioFeatures(track);
 }
 
 // Generate intelligent audio features based on track metadata
-export function generateIntelligentAudioFeatures(track: { id: string; name: string; artists: { name: string }[]; album: { name: string; release_date: string } }): TrackAnalysis {
+export function generateIntelligentAudioFeatures(track: TrackMetadata): TrackAnalysis {
   const trackName = track.name.toLowerCase();
   const artistName = track.artists[0]?.name.toLowerCase() || '';
   const albumName = track.album.name.toLowerCase();
@@ -98,43 +162,65 @@ export function generateIntelligentAudioFeatures(track: { id: string; name: stri
   };
 }
 
-// Try to get audio features from Last.fm API (free alternative)
+// Tag-based features from Last.fm (needs LASTFM_API_KEY)
 export async function getLastFmTrackInfo(artist: string, track: string): Promise<Partial<TrackAnalysis> | null> {
-  try {
-    // This would require a Last.fm API key
-    // For now, return null to fall back to generated features
-    return null;
-  } catch (error) {
-    console.warn('Last.fm API failed:', error);
-    return null;
-  }
+  const provider = createLastFmProvider();
+  if (!provider) return null;
+
+  const result = await runProviderChain([provider], { id: '', artist, track });
+  return result ? { ...result, source: 'lastfm' } : null;
+}
+
+// Metadata sources in priority order; unconfigured ones are left out
+export function getMetadataProviders(): MetadataProvider[] {
+  return [createLastFmProvider(), createMusicBrainzProvider()].filter(
+    (provider): provider is MetadataProvider => provider !== null
+  );
+}
+
+// Only what the metadata providers know about a track, for callers with their own fallback.
+// All providers are asked at once and merged, the earlier one winning where both answer.
+export async function getProvidedAudioFeatures(
+  track: TrackMetadata,
+  providers: MetadataProvider[] = getMetadataProviders()
+): Promise<ChainResult | null> {
+  return runAllProviders(providers, {
+    id: track.id,
+    artist: track.artists[0]?.name || '',
+    track: track.name,
+    album: track.album.name,
+    isrc: track.external_ids?.isrc,
+  });
 }
 
 // Enhanced audio analysis that combines multiple sources
-export async function getEnhancedAudioFeatures(tracks: { id: string; name: string; artists: { name: string }[]; album: { name: string; release_date: string } }[]): Promise<TrackAnalysis[]> {
+export async function getEnhancedAudioFeatures(
+  tracks: TrackMetadata[],
+  providers: MetadataProvider[] = getMetadataProviders()
+): Promise<TrackAnalysis[]> {
   const results: TrackAnalysis[] = [];
-  
+
   for (const track of tracks) {
-    // Try Last.fm first
-    const lastFmData = await getLastFmTrackInfo(
-      track.artists[0]?.name || '', 
-      track.name
-    );
-    
-    if (lastFmData) {
+    // Heuristics fill whatever the providers don't know (tags say nothing about tempo)
+    const generated = generateIntelligentAudioFeatures(track);
+    const provided = await getProvidedAudioFeatures(track, providers);
+
+    if (provided) {
       results.push({
-        id: track.id,
-        energy: lastFmData.energy || 0.5,
-        valence: lastFmData.valence || 0.5,
-        tempo: lastFmData.tempo || 120,
-        danceability: lastFmData.danceability || 0.5,
-        source: 'lastfm'
+        ...generated,
+        energy: provided.energy ?? generated.energy,
+        valence: provided.valence ?? generated.valence,
+        tempo: provided.tempo ?? generated.tempo,
+        danceability: provided.danceability ?? generated.danceability,
+        genre: provided.genre,
+        releaseYear: provided.releaseYear,
+        key: provided.key,
+        source: provided.source,
       });
     } else {
-      // Fall back to intelligent generation
-      results.push(generateIntelligentAudioFeatures(track));
+      results.push(generated);
     }
   }
-  
+
   return results;
-}
\ No newline at end of file
+}
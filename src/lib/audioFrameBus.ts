@@ -0,0 +1,36 @@
+// Per-frame audio data lives here instead of React state. Canvases read the latest frame in
+// their own animation loops; anything that must render from it subscribes at a coarse rate.
+
+import type { AudioData } from '@/hooks/useSpotifyPlayer';
+
+export type AudioFrameListener = (frame: AudioData) => void;
+
+export class AudioFrameBus {
+  private frame: AudioData | null = null;
+  private count = 0;
+  private listeners = new Set<AudioFrameListener>();
+
+  public publish(frame: AudioData) {
+    this.frame = frame;
+    this.count++;
+    this.listeners.forEach(listener => listener(frame));
+  }
+
+  public getFrame(): AudioData | null {
+    return this.frame;
+  }
+
+  // Bumps on every publish. Loops that run faster than frames arrive compare it to tell a new
+  // frame from the same one read again, so one-shot events (onsets, drops) fire only once.
+  public get sequence(): number {
+    return this.count;
+  }
+
+  // Listeners run inside the analysis loop, so they should only copy what they need
+  public subscribe(listener: AudioFrameListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
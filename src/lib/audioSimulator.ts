@@ -0,0 +1,190 @@
+// Deterministic stand-in for live analysis when there is no real audio. Every frame is a pure
+// function of the track's seed and playback position: kick, snare and hat patterns over a
+// song-like intro/build/drop/breakdown/outro structure, shaped by tempo and energy.
+
+import type { SectionType } from '@/lib/sectionTracker';
+
+export interface SimulatorTrack {
+  id: string; // seed; the same id always gives the same frames
+  tempo?: number;
+  energy?: number; // 0-1
+  danceability?: number; // 0-1, favours straight four-on-the-floor kicks
+  durationMs?: number; // stretches the song structure over the whole track when known
+}
+
+export interface SimulatedFrame {
+  frequencies: Uint8Array; // byte spectrum, same scale as AnalyserNode.getByteFrequencyData
+  beatPulse: number; // 0-1, jumps on kicks and snares and decays between them
+  section: SectionType;
+  intensity: number; // 0-1 loudness of the current section
+}
+
+const STEPS_PER_BAR = 16;
+const STEPS_PER_BEAT = 4;
+
+// 16th-note grids, one bar each
+const KICK_PATTERNS = ['x...x...x...x...', 'x.....x...x.....', 'x.........x.....', 'x..x..x...x..x..'];
+const SNARE_PATTERNS = ['....x.......x...', '........x.......', '....x.......x..x'];
+const HAT_PATTERNS = ['..x...x...x...x.', 'x.x.x.x.x.x.x.x.', 'xxxxxxxxxxxxxxxx'];
+
+// Song templates in bars
+const STRUCTURES: Array<Array<[SectionType, number]>> = [
+  [['intro', 8], ['build', 8], ['drop', 16], ['breakdown', 8], ['build', 8], ['drop', 16], ['outro', 8]],
+  [['intro', 4], ['drop', 16], ['breakdown', 8], ['build', 4], ['drop', 16], ['outro', 8]],
+  [['intro', 8], ['build', 4], ['drop', 8], ['breakdown', 4], ['build', 4], ['drop', 8], ['breakdown', 8], ['drop', 8], ['outro', 8]],
+];
+
+interface Mix {
+  kick: number;
+  snare: number;
+  hat: number;
+  bass: number;
+  pad: number;
+  riser: number;
+}
+
+// Voice levels per section; `ramp` is 0-1 progress through the section
+const SECTION_MIX: Record<SectionType, (ramp: number) => Mix> = {
+  intro: ramp => ({ kick: ramp > 0.5 ? 0.6 : 0, snare: 0, hat: 0.5, bass: 0.3, pad: 0.6, riser: 0 }),
+  build: ramp => ({ kick: 0.5 + ramp * 0.3, snare: 0.4 + ramp * 0.6, hat: 0.6 + ramp * 0.4, bass: 0.4, pad: 0.5, riser: ramp }),
+  drop: () => ({ kick: 1, snare: 1, hat: 0.9, bass: 1, pad: 0.7, riser: 0 }),
+  breakdown: () => ({ kick: 0, snare: 0, hat: 0.2, bass: 0.4, pad: 1, riser: 0 }),
+  outro: ramp => ({ kick: 1 - ramp, snare: 0.6 * (1 - ramp), hat: 0.7 * (1 - ramp), bass: 0.8 * (1 - ramp), pad: 0.6, riser: 0 }),
+};
+
+// Major and minor triads as semitones above the root
+const CHORDS = [[0, 4, 7], [0, 3, 7]];
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Stateless 0-1 noise, so any position can be rendered without replaying the ones before it
+function noise(seed: number, a: number, b = 0): number {
+  let h = Math.imul(seed ^ Math.imul(a, 0x27d4eb2d) ^ Math.imul(b, 0x165667b1), 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 0x100000000;
+}
+
+// Bell curve over log frequency, width in octaves
+function peak(frequency: number, center: number, width: number): number {
+  const octaves = Math.log2(frequency / center) / width;
+  return Math.exp(-octaves * octaves);
+}
+
+function midiToHz(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+export class AudioSimulator {
+  private seed: number;
+  private stepMs: number;
+  private energy: number;
+  private durationMs: number | undefined;
+  private kick: string;
+  private snare: string;
+  private hat: string;
+  private structure: Array<[SectionType, number]>;
+  private structureBars: number;
+  private bassHz: number;
+  private padHz: number[];
+
+  constructor(track: SimulatorTrack) {
+    this.seed = hashString(track.id);
+    const tempo = Math.max(60, Math.min(200, track.tempo || 120));
+    this.stepMs = 60000 / tempo / STEPS_PER_BEAT;
+    this.energy = Math.max(0, Math.min(1, track.energy ?? 0.7));
+    this.durationMs = track.durationMs && track.durationMs > 0 ? track.durationMs : undefined;
+
+    const pick = <T,>(options: T[], salt: number) => options[Math.floor(noise(this.seed, salt) * options.length)];
+    // Danceable tracks mostly get a straight kick; the rest pick freely
+    this.kick = noise(this.seed, 1) < (track.danceability ?? 0.5) ? KICK_PATTERNS[0] : pick(KICK_PATTERNS, 2);
+    this.snare = pick(SNARE_PATTERNS, 3);
+    this.hat = pick(HAT_PATTERNS, 4);
+    this.structure = pick(STRUCTURES, 5);
+    this.structureBars = this.structure.reduce((sum, [, bars]) => sum + bars, 0);
+
+    const root = 36 + Math.floor(noise(this.seed, 6) * 12);
+    this.bassHz = midiToHz(root);
+    this.padHz = pick(CHORDS, 7).map(interval => midiToHz(root + 24 + interval));
+  }
+
+  // Where a position falls in the song template, stretched to the track length when it's known
+  private sectionAt(positionMs: number): { section: SectionType; ramp: number; barsLeft: number } {
+    const barMs = this.stepMs * STEPS_PER_BAR;
+    const bar = this.durationMs
+      ? Math.min(0.999, positionMs / this.durationMs) * this.structureBars
+      : (positionMs / barMs) % this.structureBars;
+
+    let start = 0;
+    for (const [section, bars] of this.structure) {
+      if (bar < start + bars) {
+        const ramp = (bar - start) / bars;
+        return { section, ramp, barsLeft: (1 - ramp) * bars };
+      }
+      start += bars;
+    }
+    return { section: 'outro', ramp: 1, barsLeft: 0 };
+  }
+
+  // Steps since the last hit of a pattern, 0 on the hit itself; Infinity if it never plays
+  private sinceHit(pattern: string, step: number): number {
+    for (let back = 0; back < STEPS_PER_BAR; back++) {
+      if (pattern[(((step - back) % STEPS_PER_BAR) + STEPS_PER_BAR) % STEPS_PER_BAR] === 'x') return back;
+    }
+    return Infinity;
+  }
+
+  public frameAt(positionMs: number, binCount: number, sampleRate: number): SimulatedFrame {
+    const position = Math.max(0, positionMs);
+    const stepPosition = position / this.stepMs;
+    const step = Math.floor(stepPosition);
+    const stepPhase = stepPosition - step; // 0-1 through the current 16th
+    const { section, ramp, barsLeft } = this.sectionAt(position);
+    const mix = SECTION_MIX[section](ramp);
+    const level = 0.5 + this.energy * 0.5;
+
+    // Builds end on a snare roll that doubles up for the last bar
+    const roll = section === 'build' && barsLeft <= 2 ? (barsLeft <= 1 ? 1 : 2) : 0;
+    const snareSince = roll ? (step % roll) + stepPhase : this.sinceHit(this.snare, step) + stepPhase;
+
+    const kickEnv = Math.exp(-(this.sinceHit(this.kick, step) + stepPhase) * 1.2) * mix.kick * level;
+    const snareEnv = Math.exp(-snareSince * 1.5) * mix.snare * level;
+    const hatEnv = Math.exp(-(this.sinceHit(this.hat, step) + stepPhase) * 3) * mix.hat * level;
+    // Sidechain pump: the bass and pad duck under every kick
+    const duck = 1 - kickEnv * 0.6;
+    const bass = mix.bass * level * duck;
+    const pad = mix.pad * level * duck * (0.8 + 0.2 * Math.sin(position / 1000));
+    const riserHz = 500 * Math.pow(16, mix.riser);
+
+    const frequencies = new Uint8Array(binCount);
+    const binHz = sampleRate / 2 / binCount;
+
+    for (let i = 0; i < binCount; i++) {
+      const hz = Math.max(20, (i + 0.5) * binHz);
+      let magnitude = 0.02 * Math.sqrt(200 / hz) * (0.5 + noise(this.seed, step, i)); // pink-ish floor
+
+      magnitude += kickEnv * (peak(hz, 55, 0.6) + 0.1 * peak(hz, 3000, 1));
+      magnitude += snareEnv * (0.6 * peak(hz, 200, 0.5) + 0.4 * peak(hz, 2500, 1.6) * (0.6 + 0.4 * noise(this.seed, step, i + 7)));
+      magnitude += hatEnv * 0.5 * peak(hz, 10000, 0.8) * (0.5 + 0.5 * noise(this.seed, step, i + 13));
+      magnitude += bass * 0.6 * (peak(hz, this.bassHz, 0.08) + 0.5 * peak(hz, this.bassHz * 2, 0.08));
+      for (const note of this.padHz) magnitude += pad * 0.25 * peak(hz, note, 0.05);
+      if (mix.riser > 0) magnitude += mix.riser * level * 0.3 * peak(hz, riserHz, 0.4);
+
+      frequencies[i] = Math.round(255 * Math.pow(Math.min(1, magnitude), 0.7));
+    }
+
+    return {
+      frequencies,
+      beatPulse: Math.min(1, Math.max(kickEnv, snareEnv * 0.6)),
+      section,
+      intensity: Math.min(1, (mix.kick + mix.snare + mix.bass + mix.pad) / 4 * level),
+    };
+  }
+}
@@ -0,0 +1,233 @@
+// Pluggable inputs for the analysis graph: tab capture, any audio input device, a media
+// element or file, and a synthetic test signal. Each yields one node to analyse.
+
+export type AudioSourceKind = 'tab' | 'device' | 'element' | 'file' | 'test';
+
+export interface AudioSourceInfo {
+  id: string; // 'tab', 'device:<deviceId>', 'element', 'file', 'test'
+  kind: AudioSourceKind;
+  label: string;
+}
+
+export interface AudioSource extends AudioSourceInfo {
+  // Whether the analysed signal should also go to the speakers; captured audio is already audible
+  readonly monitor: boolean;
+  // Rejects when the user denies access or the device is gone
+  connect(context: AudioContext): Promise<AudioNode>;
+  // Releases the node and anything it holds (streams, elements, oscillators)
+  disconnect(): void;
+}
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Processing that flatters voices wrecks music analysis
+const RAW_AUDIO: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+// Test signal: one bar at 120 BPM with a kick on every beat, a snare on 2 and 4, off-beat hats
+// (panned right so stereo width shows) and a C major triad underneath for the key detector
+const TEST_BPM = 120;
+const TEST_BEATS = 4;
+
+abstract class StreamSource implements AudioSource {
+  public abstract readonly id: string;
+  public abstract readonly kind: AudioSourceKind;
+  public abstract readonly label: string;
+  public readonly monitor = false;
+  private stream: MediaStream | null = null;
+  private node: MediaStreamAudioSourceNode | null = null;
+
+  protected abstract open(): Promise<MediaStream>;
+
+  public async connect(context: AudioContext) {
+    this.stream = await this.open();
+    if (this.stream.getAudioTracks().length === 0) {
+      this.disconnect();
+      throw new Error('The selected source has no audio track');
+    }
+    this.node = context.createMediaStreamSource(this.stream);
+    return this.node;
+  }
+
+  public disconnect() {
+    this.node?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.node = null;
+    this.stream = null;
+  }
+}
+
+export class TabCaptureSource extends StreamSource {
+  public readonly id = 'tab';
+  public readonly kind = 'tab';
+  public readonly label = 'Tab audio';
+
+  protected open() {
+    // Browsers only offer tab audio alongside video
+    return navigator.mediaDevices.getDisplayMedia({
+      video: true,
+      audio: { ...RAW_AUDIO, sampleRate: 44100, channelCount: 2 },
+      preferCurrentTab: true,
+    } as DisplayMediaStreamOptions);
+  }
+}
+
+export class InputDeviceSource extends StreamSource {
+  public readonly kind = 'device';
+  public readonly id: string;
+  public readonly label: string;
+  private deviceId: string | null;
+
+  // No device id means the browser's default input
+  constructor(deviceId: string | null = null, label = 'Default input') {
+    super();
+    this.deviceId = deviceId;
+    this.id = `device:${deviceId ?? 'default'}`;
+    this.label = label;
+  }
+
+  protected open() {
+    return navigator.mediaDevices.getUserMedia({
+      audio: { ...RAW_AUDIO, sampleRate: 44100, ...(this.deviceId ? { deviceId: { exact: this.deviceId } } : {}) },
+    });
+  }
+}
+
+// An element can only ever feed one MediaElementAudioSourceNode, so they are kept for reuse
+const elementNodes = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+export class MediaElementSource implements AudioSource {
+  public readonly id: string = 'element';
+  public readonly kind: AudioSourceKind = 'element';
+  public readonly label: string;
+  // Once routed into the graph the element is only audible through it
+  public readonly monitor = true;
+  protected element: HTMLMediaElement;
+  private node: MediaElementAudioSourceNode | null = null;
+
+  constructor(element: HTMLMediaElement, label = 'Audio file') {
+    this.element = element;
+    this.label = label;
+  }
+
+  public async connect(context: AudioContext) {
+    let node = elementNodes.get(this.element);
+    if (!node || node.context !== context) {
+      node = context.createMediaElementSource(this.element);
+      elementNodes.set(this.element, node);
+    }
+    this.node = node;
+    return node;
+  }
+
+  public disconnect() {
+    this.node?.disconnect();
+    this.node = null;
+  }
+}
+
+// A file picked from disk, played on its own looping element
+export class FileSource extends MediaElementSource {
+  public readonly id = 'file';
+  public readonly kind = 'file';
+  private url: string;
+
+  constructor(file: File) {
+    const url = URL.createObjectURL(file);
+    const element = new Audio(url);
+    element.loop = true;
+    super(element, file.name.replace(/\.[^.]+$/, ''));
+    this.url = url;
+  }
+
+  public async connect(context: AudioContext) {
+    const node = await super.connect(context);
+    await this.element.play();
+    return node;
+  }
+
+  public disconnect() {
+    super.disconnect();
+    this.element.pause();
+    this.element.removeAttribute('src');
+    URL.revokeObjectURL(this.url);
+  }
+}
+
+function renderTestBar(context: AudioContext): AudioBuffer {
+  const sampleRate = context.sampleRate;
+  const beatLength = Math.round(sampleRate * 60 / TEST_BPM);
+  const buffer = context.createBuffer(2, beatLength * TEST_BEATS, sampleRate);
+  const left = buffer.getChannelData(0);
+  const right = buffer.getChannelData(1);
+  const triad = [261.63, 329.63, 392.0];
+
+  // Fixed-seed noise keeps the signal identical on every run
+  let seed = 0x9e3779b9;
+  const noise = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 0x80000000 - 1;
+  };
+
+  for (let i = 0; i < buffer.length; i++) {
+    const beat = Math.floor(i / beatLength);
+    const t = (i % beatLength) / sampleRate;
+    const offbeat = ((i + beatLength / 2) % beatLength) / sampleRate;
+
+    const kick = Math.sin(2 * Math.PI * (50 + 100 * Math.exp(-t * 30)) * t) * Math.exp(-t * 8) * 0.8;
+    const snare = beat % 2 === 1 ? noise() * Math.exp(-t * 18) * 0.35 : 0;
+    const hat = noise() * Math.exp(-offbeat * 60) * 0.15;
+    const pad = triad.reduce((sum, frequency) => sum + Math.sin(2 * Math.PI * frequency * i / sampleRate), 0) * 0.05;
+
+    left[i] = kick + snare + pad + hat * 0.3;
+    right[i] = kick + snare + pad + hat;
+  }
+
+  return buffer;
+}
+
+export class TestSignalSource implements AudioSource {
+  public readonly id = 'test';
+  public readonly kind = 'test';
+  public readonly label = 'Test signal';
+  public readonly monitor = false;
+  private node: AudioBufferSourceNode | null = null;
+
+  public async connect(context: AudioContext) {
+    this.node = context.createBufferSource();
+    this.node.buffer = renderTestBar(context);
+    this.node.loop = true;
+    this.node.start();
+    return this.node;
+  }
+
+  public disconnect() {
+    try {
+      this.node?.stop();
+    } catch {
+      // Already stopped
+    }
+    this.node?.disconnect();
+    this.node = null;
+  }
+}
+
+// Labels stay empty until the page has been granted microphone access once
+export async function listInputDevices(): Promise<InputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications')
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Input ${index + 1}` }));
+}
+
+export function describeSource(source: AudioSource): AudioSourceInfo {
+  return { id: source.id, kind: source.kind, label: source.label };
+}
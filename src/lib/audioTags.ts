@@ -0,0 +1,308 @@
+// Title, artist, album and cover art from local audio files: ID3v2/ID3v1 (MP3), FLAC and
+// Ogg Vorbis/Opus comments, and RIFF INFO chunks (WAV). Reads only the bytes it needs.
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  picture?: Blob;
+}
+
+// Ogg comment headers come right after the identification header
+const OGG_SCAN_BYTES = 1024 * 1024;
+const ID3_FRAMES: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  TIT2: 'title', TPE1: 'artist', TALB: 'album',
+  TT2: 'title', TP1: 'artist', TAL: 'album',
+};
+const VORBIS_FIELDS: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  TITLE: 'title', ARTIST: 'artist', ALBUM: 'album',
+};
+const RIFF_FIELDS: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  INAM: 'title', IART: 'artist', IPRD: 'album',
+};
+// ID3 picture type 3 / FLAC picture type 3 is the front cover
+const FRONT_COVER = 3;
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+}
+
+function uint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function uint32LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] + (bytes[offset + 1] << 8) + (bytes[offset + 2] << 16) + ((bytes[offset + 3] << 24) >>> 0);
+}
+
+function clean(value: string): string | undefined {
+  const trimmed = value.replace(/\0+$/, '').trim();
+  return trimmed || undefined;
+}
+
+// ID3 text encodings: 0 Latin-1, 1 UTF-16 with BOM, 2 UTF-16BE, 3 UTF-8
+function decodeText(bytes: Uint8Array, encoding: number): string {
+  const label = encoding === 1 ? 'utf-16' : encoding === 2 ? 'utf-16be' : encoding === 3 ? 'utf-8' : 'latin1';
+  return new TextDecoder(label).decode(bytes);
+}
+
+// Offset just past a null terminator, which is two bytes wide in the UTF-16 encodings
+function skipTerminated(bytes: Uint8Array, offset: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return bytes.length;
+}
+
+function readId3Picture(frame: Uint8Array, legacy: boolean): { type: number; picture: Blob } | null {
+  const encoding = frame[0];
+  let offset = 1;
+  let mime: string;
+
+  if (legacy) {
+    // ID3v2.2 PIC: three-letter image format instead of a MIME type
+    mime = `image/${ascii(frame, 1, 3).toLowerCase().replace('jpg', 'jpeg')}`;
+    offset = 4;
+  } else {
+    const end = frame.indexOf(0, offset);
+    if (end < 0) return null;
+    mime = ascii(frame, offset, end - offset) || 'image/jpeg';
+    offset = end + 1;
+  }
+
+  const type = frame[offset];
+  offset = skipTerminated(frame, offset + 1, encoding);
+  if (offset >= frame.length) return null;
+  return { type, picture: new Blob([frame.slice(offset)], { type: mime.includes('/') ? mime : `image/${mime}` }) };
+}
+
+async function readId3v2(file: Blob): Promise<AudioTags | null> {
+  const header = await readBytes(file, 0, 10);
+  if (ascii(header, 0, 3) !== 'ID3') return null;
+
+  const version = header[3];
+  const flags = header[5];
+  const size = syncsafe(header, 6);
+  const tag = await readBytes(file, 10, 10 + size);
+  const tags: AudioTags = {};
+  let coverType = -1;
+
+  let offset = 0;
+  if (flags & 0x40) {
+    // Extended header: v2.4 counts its own size field, v2.3 doesn't
+    offset = version === 4 ? syncsafe(tag, 0) : uint32BE(tag, 0) + 4;
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  while (offset + headerLength <= tag.length) {
+    const id = ascii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+
+    const frameSize = version === 2
+      ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+      : version === 4 ? syncsafe(tag, offset + 4) : uint32BE(tag, offset + 4);
+    const frame = tag.subarray(offset + headerLength, offset + headerLength + frameSize);
+    offset += headerLength + frameSize;
+
+    const field = ID3_FRAMES[id];
+    if (field && frame.length > 1) {
+      tags[field] = clean(decodeText(frame.subarray(1), frame[0]));
+    } else if ((id === 'APIC' || id === 'PIC') && frame.length > 4) {
+      const picture = readId3Picture(frame, id === 'PIC');
+      // Keep the first picture unless a front cover turns up later
+      if (picture && (coverType < 0 || (picture.type === FRONT_COVER && coverType !== FRONT_COVER))) {
+        tags.picture = picture.picture;
+        coverType = picture.type;
+      }
+    }
+  }
+
+  return tags;
+}
+
+async function readId3v1(file: Blob): Promise<AudioTags | null> {
+  if (file.size < 128) return null;
+  const tag = await readBytes(file, file.size - 128, file.size);
+  if (ascii(tag, 0, 3) !== 'TAG') return null;
+
+  const text = (start: number) => clean(decodeText(tag.subarray(start, start + 30), 0));
+  return { title: text(3), artist: text(33), album: text(63) };
+}
+
+// Shared by FLAC PICTURE blocks and Ogg METADATA_BLOCK_PICTURE comments
+function readFlacPicture(block: Uint8Array): { type: number; picture: Blob } | null {
+  if (block.length < 32) return null;
+  const type = uint32BE(block, 0);
+  const mimeLength = uint32BE(block, 4);
+  const mime = ascii(block, 8, mimeLength);
+  let offset = 8 + mimeLength;
+  offset += 4 + uint32BE(block, offset); // description
+  offset += 16; // width, height, depth, colours
+  const length = uint32BE(block, offset);
+  offset += 4;
+  if (offset + length > block.length) return null;
+  return { type, picture: new Blob([block.slice(offset, offset + length)], { type: mime || 'image/jpeg' }) };
+}
+
+function readVorbisComments(block: Uint8Array, tags: AudioTags) {
+  const decoder = new TextDecoder('utf-8');
+  let offset = 4 + uint32LE(block, 0); // vendor string
+  const count = uint32LE(block, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= block.length; i++) {
+    const length = uint32LE(block, offset);
+    const comment = decoder.decode(block.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = comment.indexOf('=');
+    if (separator < 0) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+
+    const field = VORBIS_FIELDS[key];
+    if (field && !tags[field]) {
+      tags[field] = clean(value);
+    } else if (key === 'METADATA_BLOCK_PICTURE' && !tags.picture) {
+      try {
+        const binary = Uint8Array.from(atob(value), char => char.charCodeAt(0));
+        tags.picture = readFlacPicture(binary)?.picture;
+      } catch {
+        // Malformed base64 just means no cover
+      }
+    }
+  }
+}
+
+async function readFlac(file: Blob): Promise<AudioTags | null> {
+  const marker = await readBytes(file, 0, 4);
+  if (ascii(marker, 0, 4) !== 'fLaC') return null;
+
+  const tags: AudioTags = {};
+  let coverType = -1;
+  let offset = 4;
+  let last = false;
+
+  while (!last && offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, offset + 4);
+    last = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    offset += 4;
+
+    if (type === 4) {
+      readVorbisComments(await readBytes(file, offset, offset + length), tags);
+    } else if (type === 6) {
+      const picture = readFlacPicture(await readBytes(file, offset, offset + length));
+      if (picture && (coverType < 0 || (picture.type === FRONT_COVER && coverType !== FRONT_COVER))) {
+        tags.picture = picture.picture;
+        coverType = picture.type;
+      }
+    }
+    offset += length;
+  }
+
+  return tags;
+}
+
+// Reassembles the second logical packet (the comment header) from the first Ogg pages
+async function readOgg(file: Blob): Promise<AudioTags | null> {
+  const bytes = await readBytes(file, 0, Math.min(file.size, OGG_SCAN_BYTES));
+  if (ascii(bytes, 0, 4) !== 'OggS') return null;
+
+  const packets: Uint8Array[][] = [[]];
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && packets.length <= 2 && ascii(bytes, offset, 4) === 'OggS') {
+    const segmentCount = bytes[offset + 26];
+    const table = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let dataOffset = offset + 27 + segmentCount;
+
+    for (const segment of table) {
+      packets[packets.length - 1].push(bytes.subarray(dataOffset, dataOffset + segment));
+      dataOffset += segment;
+      // A lacing value under 255 ends the packet
+      if (segment < 255) packets.push([]);
+    }
+    offset = dataOffset;
+  }
+
+  const parts = packets[1];
+  if (!parts || parts.length === 0) return null;
+  const packet = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((position, part) => {
+    packet.set(part, position);
+    return position + part.length;
+  }, 0);
+
+  const tags: AudioTags = {};
+  if (packet[0] === 3 && ascii(packet, 1, 6) === 'vorbis') {
+    readVorbisComments(packet.subarray(7), tags);
+  } else if (ascii(packet, 0, 8) === 'OpusTags') {
+    readVorbisComments(packet.subarray(8), tags);
+  } else {
+    return null;
+  }
+  return tags;
+}
+
+async function readRiff(file: Blob): Promise<AudioTags | null> {
+  const header = await readBytes(file, 0, 12);
+  if (ascii(header, 0, 4) !== 'RIFF' || ascii(header, 8, 4) !== 'WAVE') return null;
+
+  const tags: AudioTags = {};
+  let offset = 12;
+
+  while (offset + 8 <= file.size) {
+    const chunk = await readBytes(file, offset, offset + 12);
+    const id = ascii(chunk, 0, 4);
+    const size = uint32LE(chunk, 4);
+
+    if (id === 'LIST' && ascii(chunk, 8, 4) === 'INFO') {
+      const list = await readBytes(file, offset + 12, offset + 8 + size);
+      for (let position = 0; position + 8 <= list.length;) {
+        const field = RIFF_FIELDS[ascii(list, position, 4)];
+        const length = uint32LE(list, position + 4);
+        if (field) tags[field] = clean(decodeText(list.subarray(position + 8, position + 8 + length), 3));
+        position += 8 + length + (length % 2);
+      }
+    } else if (id.toLowerCase() === 'id3 ') {
+      Object.assign(tags, await readId3v2(file.slice(offset + 8, offset + 8 + size)));
+    }
+
+    // Chunks are word aligned
+    offset += 8 + size + (size % 2);
+  }
+
+  return tags;
+}
+
+// Empty object when the format is unknown or the tags are unreadable; callers fall back to the file name
+export async function readAudioTags(file: Blob): Promise<AudioTags> {
+  try {
+    const tags = await readId3v2(file) ?? await readFlac(file) ?? await readOgg(file) ?? await readRiff(file) ?? {};
+
+    // ID3v1 trailer fills anything an MP3 without v2 tags is missing
+    if (!tags.title || !tags.artist) {
+      const trailer = await readId3v1(file);
+      if (trailer) {
+        return { ...trailer, ...Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== undefined)) };
+      }
+    }
+    return tags;
+  } catch (error) {
+    console.warn('Failed to read audio tags:', error);
+    return {};
+  }
+}
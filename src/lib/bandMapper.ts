@@ -0,0 +1,126 @@
+// Perceptual (log or mel spaced) band mapping for analyser frequency bins
+
+export type BandScale = 'log' | 'mel';
+
+export interface AnalyserSettings {
+  fftSize: number; // power of two, 256-8192
+  smoothing: number; // AnalyserNode smoothingTimeConstant, 0-1
+  bandCount: number; // perceptual bands exposed on AudioData.bands
+  bandScale: BandScale;
+  useWorklet: boolean; // run the FFT and onset flux on the audio thread when supported
+  autoGain: boolean; // normalise levels and bands against their recent loudness
+  gainAttack: number; // ms for the gain reference to follow louder passages
+  gainRelease: number; // ms for the gain reference to relax after them
+}
+
+export const FFT_SIZE_OPTIONS = [256, 512, 1024, 2048, 4096, 8192];
+
+export const DEFAULT_ANALYSER_SETTINGS: AnalyserSettings = {
+  fftSize: 2048,
+  smoothing: 0.8,
+  bandCount: 64,
+  bandScale: 'log',
+  useWorklet: true,
+  autoGain: true,
+  gainAttack: 300,
+  gainRelease: 3000,
+};
+
+// Level ranges in Hz for the bass/mid/treble summaries
+export const FREQUENCY_RANGES = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  treble: [4000, 16000],
+} as const;
+
+type BinRange = { start: number; end: number }; // end is exclusive
+
+export interface BandMapping {
+  sampleRate: number;
+  binCount: number;
+  scale: BandScale;
+  edges: number[]; // bandCount + 1 edge frequencies in Hz
+  bands: BinRange[];
+  levels: Record<keyof typeof FREQUENCY_RANGES, BinRange>;
+}
+
+const MIN_BAND_HZ = 20;
+
+function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+// Bin k of an analyser covers k * sampleRate / fftSize Hz, with fftSize = 2 * binCount
+export function hzToBin(hz: number, sampleRate: number, binCount: number): number {
+  return (hz * binCount * 2) / sampleRate;
+}
+
+function toBinRange(lowHz: number, highHz: number, sampleRate: number, binCount: number): BinRange {
+  const start = Math.min(binCount - 1, Math.max(0, Math.floor(hzToBin(lowHz, sampleRate, binCount))));
+  const end = Math.min(binCount, Math.max(start + 1, Math.ceil(hzToBin(highHz, sampleRate, binCount))));
+  return { start, end };
+}
+
+export function createBandMapping(
+  sampleRate: number,
+  binCount: number,
+  bandCount: number,
+  scale: BandScale = 'log'
+): BandMapping {
+  const nyquist = sampleRate / 2;
+  const maxHz = Math.min(FREQUENCY_RANGES.treble[1], nyquist);
+  const edges: number[] = [];
+
+  for (let i = 0; i <= bandCount; i++) {
+    const t = i / bandCount;
+    if (scale === 'mel') {
+      const low = hzToMel(MIN_BAND_HZ);
+      edges.push(melToHz(low + (hzToMel(maxHz) - low) * t));
+    } else {
+      edges.push(MIN_BAND_HZ * Math.pow(maxHz / MIN_BAND_HZ, t));
+    }
+  }
+
+  // Bands narrower than one bin at low FFT sizes still get the bin they fall in
+  const bands = edges.slice(0, -1).map((lowHz, i) => toBinRange(lowHz, edges[i + 1], sampleRate, binCount));
+
+  return {
+    sampleRate,
+    binCount,
+    scale,
+    edges,
+    bands,
+    levels: {
+      bass: toBinRange(FREQUENCY_RANGES.bass[0], FREQUENCY_RANGES.bass[1], sampleRate, binCount),
+      mid: toBinRange(FREQUENCY_RANGES.mid[0], FREQUENCY_RANGES.mid[1], sampleRate, binCount),
+      treble: toBinRange(FREQUENCY_RANGES.treble[0], Math.min(FREQUENCY_RANGES.treble[1], nyquist), sampleRate, binCount),
+    },
+  };
+}
+
+function averageRange(frequencies: Uint8Array, range: BinRange): number {
+  let sum = 0;
+  for (let i = range.start; i < range.end; i++) sum += frequencies[i];
+  return sum / ((range.end - range.start) * 255);
+}
+
+// Average each perceptual band into 0-1
+export function mapBands(frequencies: Uint8Array, mapping: BandMapping): Float32Array {
+  const bands = new Float32Array(mapping.bands.length);
+  for (let i = 0; i < mapping.bands.length; i++) {
+    bands[i] = averageRange(frequencies, mapping.bands[i]);
+  }
+  return bands;
+}
+
+export function getLevels(frequencies: Uint8Array, mapping: BandMapping) {
+  return {
+    bassLevel: averageRange(frequencies, mapping.levels.bass),
+    midLevel: averageRange(frequencies, mapping.levels.mid),
+    trebleLevel: averageRange(frequencies, mapping.levels.treble),
+  };
+}
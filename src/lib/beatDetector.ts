@@ -0,0 +1,230 @@
+// Spectral-flux onset and beat detection on analyser frequency frames
+
+export interface OnsetEvent {
+  time: number; // ms, same clock as the frames passed to process()
+  strength: number; // 0-1, how far the flux cleared its adaptive threshold
+  confidence: number; // 0-1
+}
+
+export interface BeatEvent extends OnsetEvent {
+  interval: number | null; // ms since the previous beat, null for the first one
+}
+
+export interface BeatDetectionResult {
+  onset: OnsetEvent | null; // set only on the frame an onset fires
+  beat: BeatEvent | null; // set only on the frame a beat fires
+  flux: number; // full-band spectral flux, 0-1
+  pulse: number; // decaying 0-1 envelope that jumps on every beat
+}
+
+export interface BeatDetectorOptions {
+  historySize?: number; // flux frames kept for the adaptive threshold (~1s of worklet frames at ~94fps, ~1.5s at 60fps)
+  sensitivity?: number; // standard deviations above the mean needed to fire
+  minOnsetInterval?: number; // ms between onsets
+  minBeatInterval?: number; // ms between beats (250ms caps detection at 240 BPM)
+  lowBandRatio?: number; // fraction of bins treated as the kick band when no bin range is given
+  pulseDecay?: number; // fraction of the pulse left after one second
+}
+
+const DEFAULT_OPTIONS: Required<BeatDetectorOptions> = {
+  historySize: 90,
+  sensitivity: 1.5,
+  minOnsetInterval: 100,
+  minBeatInterval: 250,
+  lowBandRatio: 0.1,
+  pulseDecay: 0.02,
+};
+
+// Flux below this is treated as silence so noise floors never trigger events
+const FLUX_FLOOR = 0.004;
+
+class FluxHistory {
+  private values: Float32Array;
+  private index = 0;
+  private count = 0;
+
+  constructor(size: number) {
+    this.values = new Float32Array(size);
+  }
+
+  push(value: number) {
+    this.values[this.index] = value;
+    this.index = (this.index + 1) % this.values.length;
+    this.count = Math.min(this.count + 1, this.values.length);
+  }
+
+  stats(): { mean: number; std: number } {
+    if (this.count === 0) return { mean: 0, std: 0 };
+
+    let sum = 0;
+    for (let i = 0; i < this.count; i++) sum += this.values[i];
+    const mean = sum / this.count;
+
+    let variance = 0;
+    for (let i = 0; i < this.count; i++) variance += (this.values[i] - mean) ** 2;
+
+    return { mean, std: Math.sqrt(variance / this.count) };
+  }
+
+  get size() {
+    return this.count;
+  }
+
+  clear() {
+    this.values.fill(0);
+    this.index = 0;
+    this.count = 0;
+  }
+}
+
+export class BeatDetector {
+  private options: Required<BeatDetectorOptions>;
+  private previousSpectrum: Float32Array | null = null;
+  private fullHistory: FluxHistory;
+  private lowHistory: FluxHistory;
+  private wasAboveFull = false;
+  private wasAboveLow = false;
+  private lastOnsetTime = -Infinity;
+  private lastBeatTime = -Infinity;
+  private lastFrameTime: number | null = null;
+  private beatIntervals: number[] = [];
+  private pulse = 0;
+
+  constructor(options: BeatDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.fullHistory = new FluxHistory(this.options.historySize);
+    this.lowHistory = new FluxHistory(this.options.historySize);
+  }
+
+  // lowBandEnd is the exclusive bin index where the kick band stops
+  public process(frequencies: Uint8Array, time: number, lowBandEnd?: number): BeatDetectionResult {
+    const binCount = frequencies.length;
+
+    // A resized analyser invalidates the previous frame
+    if (!this.previousSpectrum || this.previousSpectrum.length !== binCount) {
+      this.previousSpectrum = new Float32Array(binCount);
+      for (let i = 0; i < binCount; i++) this.previousSpectrum[i] = frequencies[i] / 255;
+      this.lastFrameTime = time;
+      return { onset: null, beat: null, flux: 0, pulse: this.decayPulse(time) };
+    }
+
+    const lowBins = Math.min(binCount, Math.max(1, lowBandEnd ?? Math.floor(binCount * this.options.lowBandRatio)));
+    let fullFlux = 0;
+    let lowFlux = 0;
+
+    for (let i = 0; i < binCount; i++) {
+      const magnitude = frequencies[i] / 255;
+      const rise = magnitude - this.previousSpectrum[i];
+      if (rise > 0) {
+        fullFlux += rise;
+        if (i < lowBins) lowFlux += rise;
+      }
+      this.previousSpectrum[i] = magnitude;
+    }
+
+    return this.processFlux(fullFlux / binCount, lowFlux / lowBins, time);
+  }
+
+  // Entry point for flux that was already computed elsewhere, e.g. on the audio thread
+  public processFlux(fullFlux: number, lowFlux: number, time: number): BeatDetectionResult {
+    const pulse = this.decayPulse(time);
+    const onset = this.detectOnset(fullFlux, time);
+    const beat = this.detectBeat(lowFlux, time);
+
+    if (beat) {
+      this.pulse = Math.max(pulse, 0.5 + beat.strength * 0.5);
+    }
+
+    return { onset, beat, flux: Math.min(1, fullFlux), pulse: this.pulse };
+  }
+
+  public reset() {
+    this.previousSpectrum = null;
+    this.fullHistory.clear();
+    this.lowHistory.clear();
+    this.wasAboveFull = false;
+    this.wasAboveLow = false;
+    this.lastOnsetTime = -Infinity;
+    this.lastBeatTime = -Infinity;
+    this.lastFrameTime = null;
+    this.beatIntervals = [];
+    this.pulse = 0;
+  }
+
+  private decayPulse(time: number): number {
+    if (this.lastFrameTime !== null) {
+      const elapsed = Math.max(0, time - this.lastFrameTime) / 1000;
+      this.pulse *= Math.pow(this.options.pulseDecay, elapsed);
+    }
+    this.lastFrameTime = time;
+    return this.pulse;
+  }
+
+  private detectOnset(flux: number, time: number): OnsetEvent | null {
+    const crossing = this.checkThreshold(this.fullHistory, flux, this.wasAboveFull);
+    this.wasAboveFull = crossing.above;
+    this.fullHistory.push(flux);
+
+    if (!crossing.fired || time - this.lastOnsetTime < this.options.minOnsetInterval) {
+      return null;
+    }
+
+    this.lastOnsetTime = time;
+    return { time, strength: crossing.strength, confidence: crossing.confidence };
+  }
+
+  private detectBeat(flux: number, time: number): BeatEvent | null {
+    const crossing = this.checkThreshold(this.lowHistory, flux, this.wasAboveLow);
+    this.wasAboveLow = crossing.above;
+    this.lowHistory.push(flux);
+
+    if (!crossing.fired || time - this.lastBeatTime < this.options.minBeatInterval) {
+      return null;
+    }
+
+    const interval = Number.isFinite(this.lastBeatTime) ? time - this.lastBeatTime : null;
+    this.lastBeatTime = time;
+
+    // Beats that land where the recent rhythm predicts are more trustworthy
+    let regularity = 0.5;
+    if (interval !== null && interval < 2000) {
+      if (this.beatIntervals.length > 0) {
+        const average = this.beatIntervals.reduce((sum, value) => sum + value, 0) / this.beatIntervals.length;
+        regularity = Math.max(0, 1 - Math.abs(interval - average) / average);
+      }
+      this.beatIntervals.push(interval);
+      if (this.beatIntervals.length > 8) this.beatIntervals.shift();
+    } else {
+      this.beatIntervals = [];
+    }
+
+    return {
+      time,
+      strength: crossing.strength,
+      confidence: crossing.confidence * 0.6 + regularity * 0.4,
+      interval,
+    };
+  }
+
+  // Fires only on the rising edge so one sustained hit yields one event
+  private checkThreshold(history: FluxHistory, flux: number, wasAbove: boolean) {
+    // Wait for a little history before trusting the threshold
+    if (history.size < 10) {
+      return { above: false, fired: false, strength: 0, confidence: 0 };
+    }
+
+    const { mean, std } = history.stats();
+    const threshold = Math.max(FLUX_FLOOR, mean + std * this.options.sensitivity);
+    const above = flux > threshold;
+
+    if (!above || wasAbove) {
+      return { above, fired: false, strength: 0, confidence: 0 };
+    }
+
+    const strength = Math.min(1, (flux - threshold) / threshold);
+    const zScore = std > 0 ? (flux - mean) / std : this.options.sensitivity;
+    const confidence = Math.min(1, Math.max(0, zScore / (this.options.sensitivity * 3)));
+
+    return { above, fired: true, strength, confidence };
+  }
+}
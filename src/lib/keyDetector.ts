@@ -0,0 +1,153 @@
+// 12-bin chroma extraction and key/mode estimation from analyser spectra
+
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyEstimate {
+  tonic: number; // pitch class, 0 = C
+  mode: KeyMode;
+  name: string; // e.g. "F# minor"
+  confidence: number; // 0-1 correlation with the key profile
+}
+
+export interface KeyDetectionResult {
+  chroma: Float32Array; // 12 normalised pitch-class energies, C first
+  key: KeyEstimate | null;
+}
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// A key estimate is trusted for live colours once it is at least this confident
+export const KEY_CONFIDENCE_THRESHOLD = 0.6;
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Below ~100 Hz a 2048-point FFT can't tell neighbouring semitones apart
+const MIN_CHROMA_HZ = 100;
+const MAX_CHROMA_HZ = 5000;
+const CHROMA_TIME_CONSTANT = 4000; // ms
+const KEY_SWITCH_MARGIN = 0.05;
+
+function correlate(chroma: Float32Array, profile: number[], tonic: number): number {
+  let chromaMean = 0;
+  let profileMean = 0;
+  for (let i = 0; i < 12; i++) {
+    chromaMean += chroma[i];
+    profileMean += profile[i];
+  }
+  chromaMean /= 12;
+  profileMean /= 12;
+
+  let numerator = 0;
+  let chromaVariance = 0;
+  let profileVariance = 0;
+  for (let i = 0; i < 12; i++) {
+    const c = chroma[(tonic + i) % 12] - chromaMean;
+    const p = profile[i] - profileMean;
+    numerator += c * p;
+    chromaVariance += c * c;
+    profileVariance += p * p;
+  }
+
+  const denominator = Math.sqrt(chromaVariance * profileVariance);
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+export function keyName(tonic: number, mode: KeyMode): string {
+  return `${PITCH_CLASSES[tonic]} ${mode}`;
+}
+
+export class KeyDetector {
+  private pitchClasses: Int8Array = new Int8Array(0);
+  private mappedFor = { binCount: 0, sampleRate: 0 };
+  private smoothed = new Float32Array(12);
+  private lastTime: number | null = null;
+  private current: KeyEstimate | null = null;
+
+  // Feed one byte spectrum per analysis frame; time is in ms
+  public process(frequencies: Uint8Array, sampleRate: number, time: number): KeyDetectionResult {
+    const pitchClasses = this.getPitchClasses(frequencies.length, sampleRate);
+    const frame = new Float32Array(12);
+
+    // Byte values are dB-scaled, so square them back toward energy before folding into octaves
+    for (let i = 0; i < frequencies.length; i++) {
+      const pitchClass = pitchClasses[i];
+      if (pitchClass < 0) continue;
+      const magnitude = frequencies[i] / 255;
+      frame[pitchClass] += magnitude * magnitude;
+    }
+
+    const dt = this.lastTime === null ? CHROMA_TIME_CONSTANT : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+    const alpha = 1 - Math.exp(-dt / CHROMA_TIME_CONSTANT);
+    for (let i = 0; i < 12; i++) {
+      this.smoothed[i] += (frame[i] - this.smoothed[i]) * alpha;
+    }
+
+    const chroma = this.normalisedChroma();
+    return { chroma, key: this.estimateKey(chroma) };
+  }
+
+  public reset() {
+    this.smoothed.fill(0);
+    this.lastTime = null;
+    this.current = null;
+  }
+
+  private getPitchClasses(binCount: number, sampleRate: number): Int8Array {
+    if (this.mappedFor.binCount === binCount && this.mappedFor.sampleRate === sampleRate) {
+      return this.pitchClasses;
+    }
+
+    const pitchClasses = new Int8Array(binCount).fill(-1);
+    const binHz = sampleRate / (binCount * 2);
+    for (let i = 1; i < binCount; i++) {
+      const hz = i * binHz;
+      if (hz < MIN_CHROMA_HZ || hz > MAX_CHROMA_HZ) continue;
+      const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+      pitchClasses[i] = ((midi % 12) + 12) % 12;
+    }
+
+    this.pitchClasses = pitchClasses;
+    this.mappedFor = { binCount, sampleRate };
+    return pitchClasses;
+  }
+
+  private normalisedChroma(): Float32Array {
+    const chroma = new Float32Array(12);
+    let max = 0;
+    for (let i = 0; i < 12; i++) max = Math.max(max, this.smoothed[i]);
+    if (max <= 0) return chroma;
+    for (let i = 0; i < 12; i++) chroma[i] = this.smoothed[i] / max;
+    return chroma;
+  }
+
+  private estimateKey(chroma: Float32Array): KeyEstimate | null {
+    let best: KeyEstimate | null = null;
+    let currentScore = -Infinity;
+
+    for (let tonic = 0; tonic < 12; tonic++) {
+      for (const mode of ['major', 'minor'] as const) {
+        const score = correlate(chroma, mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE, tonic);
+        if (!best || score > best.confidence) {
+          best = { tonic, mode, name: keyName(tonic, mode), confidence: score };
+        }
+        if (this.current && this.current.tonic === tonic && this.current.mode === mode) {
+          currentScore = score;
+        }
+      }
+    }
+
+    if (!best || best.confidence <= 0) return this.current;
+
+    // Hold the current key unless another one is clearly ahead, so colours don't flicker
+    if (this.current && best.name !== this.current.name && best.confidence - currentScore < KEY_SWITCH_MARGIN) {
+      this.current = { ...this.current, confidence: Math.max(0, currentScore) };
+    } else {
+      this.current = { ...best, confidence: Math.min(1, best.confidence) };
+    }
+
+    return this.current;
+  }
+}
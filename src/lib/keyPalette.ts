@@ -0,0 +1,32 @@
+// Deterministic key-to-colour mapping on a circle-of-fifths hue wheel
+
+import type { KeyEstimate } from '@/lib/keyDetector';
+
+export interface KeyPalette {
+  primaryColor: string;
+  secondaryColor: string;
+  accentColor: string;
+}
+
+// Neighbouring keys on the circle of fifths sit 30° apart
+const FIFTHS_STEP_DEGREES = 30;
+
+// Minor keys share the hue of their relative major so related keys stay close
+function fifthsHue(tonic: number, mode: KeyEstimate['mode']): number {
+  const majorTonic = mode === 'minor' ? (tonic + 3) % 12 : tonic;
+  return ((majorTonic * 7) % 12) * FIFTHS_STEP_DEGREES;
+}
+
+export function getKeyPalette(key: Pick<KeyEstimate, 'tonic' | 'mode'>): KeyPalette {
+  const hue = fifthsHue(key.tonic, key.mode);
+  const lightness = key.mode === 'minor' ? 38 : 60;
+  const saturation = key.mode === 'minor' ? 55 : 75;
+
+  return {
+    primaryColor: `hsl(${hue}, ${saturation}%, ${lightness}%)`,
+    // Dominant, one step clockwise
+    secondaryColor: `hsl(${(hue + FIFTHS_STEP_DEGREES) % 360}, ${saturation}%, ${lightness + 10}%)`,
+    // Tritone, across the wheel
+    accentColor: `hsl(${(hue + 180) % 360}, ${saturation + 15}%, ${lightness + 5}%)`,
+  };
+}
@@ -0,0 +1,163 @@
+// Last.fm tag client: track.getTopTags / artist.getTopTags mapped to energy, valence and genre
+
+import type { MetadataProvider, ProviderResult, TrackQuery } from '@/lib/metadataProviders';
+
+// LASTFM_API_URL lets a local fixture server stand in for the real API
+const DEFAULT_API_URL = 'https://ws.audioscrobbler.com/2.0/';
+
+export interface LastFmTag {
+  name: string;
+  count: number; // 0-100 relative weight within the response
+}
+
+interface LastFmConfig {
+  apiKey: string;
+  apiUrl?: string;
+}
+
+// Tag vocabulary: how each tag nudges energy and valence, and whether it names a genre
+const TAG_FEATURES: Record<string, { energy?: number; valence?: number; genre?: string }> = {
+  'electronic': { energy: 0.7, genre: 'Electronic' },
+  'edm': { energy: 0.9, valence: 0.7, genre: 'EDM' },
+  'house': { energy: 0.8, valence: 0.7, genre: 'House' },
+  'techno': { energy: 0.85, valence: 0.45, genre: 'Techno' },
+  'trance': { energy: 0.8, valence: 0.65, genre: 'Trance' },
+  'dubstep': { energy: 0.95, valence: 0.4, genre: 'Dubstep' },
+  'drum and bass': { energy: 0.95, valence: 0.5, genre: 'Drum & Bass' },
+  'ambient': { energy: 0.15, valence: 0.5, genre: 'Ambient' },
+  'chillout': { energy: 0.25, valence: 0.6, genre: 'Chillout' },
+  'lo-fi': { energy: 0.25, valence: 0.55, genre: 'Lo-Fi' },
+  'pop': { energy: 0.65, valence: 0.7, genre: 'Pop' },
+  'dance': { energy: 0.8, valence: 0.75, genre: 'Dance' },
+  'rock': { energy: 0.75, valence: 0.5, genre: 'Rock' },
+  'indie': { energy: 0.55, valence: 0.5, genre: 'Indie' },
+  'metal': { energy: 0.95, valence: 0.3, genre: 'Metal' },
+  'punk': { energy: 0.9, valence: 0.5, genre: 'Punk' },
+  'hip-hop': { energy: 0.7, valence: 0.55, genre: 'Hip-Hop' },
+  'hip hop': { energy: 0.7, valence: 0.55, genre: 'Hip-Hop' },
+  'rap': { energy: 0.75, valence: 0.5, genre: 'Hip-Hop' },
+  'rnb': { energy: 0.5, valence: 0.6, genre: 'R&B' },
+  'soul': { energy: 0.5, valence: 0.6, genre: 'Soul' },
+  'jazz': { energy: 0.4, valence: 0.6, genre: 'Jazz' },
+  'classical': { energy: 0.25, valence: 0.5, genre: 'Classical' },
+  'folk': { energy: 0.3, valence: 0.5, genre: 'Folk' },
+  'acoustic': { energy: 0.3, valence: 0.55 },
+  'country': { energy: 0.5, valence: 0.65, genre: 'Country' },
+  'happy': { valence: 0.9 },
+  'upbeat': { energy: 0.8, valence: 0.85 },
+  'party': { energy: 0.9, valence: 0.85 },
+  'energetic': { energy: 0.9 },
+  'chill': { energy: 0.2, valence: 0.6 },
+  'mellow': { energy: 0.25, valence: 0.5 },
+  'sad': { energy: 0.3, valence: 0.15 },
+  'melancholic': { energy: 0.3, valence: 0.2 },
+  'melancholy': { energy: 0.3, valence: 0.2 },
+  'dark': { energy: 0.6, valence: 0.2 },
+  'aggressive': { energy: 0.95, valence: 0.25 },
+  'romantic': { energy: 0.35, valence: 0.7 },
+};
+
+// Artist tags describe the track less directly than its own tags
+const ARTIST_TAG_WEIGHT = 0.5;
+const MIN_TRACK_TAGS = 3;
+
+async function fetchTopTags(
+  config: LastFmConfig,
+  params: Record<string, string>,
+  signal: AbortSignal
+): Promise<LastFmTag[]> {
+  const url = new URL(config.apiUrl ?? DEFAULT_API_URL);
+  Object.entries({ ...params, api_key: config.apiKey, format: 'json', autocorrect: '1' }).forEach(([key, value]) =>
+    url.searchParams.set(key, value)
+  );
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Last.fm API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  // Unknown tracks come back as 200 with an error payload
+  if (data.error) {
+    if (data.error === 6) return [];
+    throw new Error(`Last.fm API error ${data.error}: ${data.message}`);
+  }
+
+  const tags = data.toptags?.tag;
+  if (!Array.isArray(tags)) return [];
+
+  return tags.map((tag: { name: string; count: number | string }) => ({
+    name: String(tag.name).toLowerCase().trim(),
+    count: Number(tag.count) || 0,
+  }));
+}
+
+export function getTrackTopTags(config: LastFmConfig, artist: string, track: string, signal: AbortSignal) {
+  return fetchTopTags(config, { method: 'track.gettoptags', artist, track }, signal);
+}
+
+export function getArtistTopTags(config: LastFmConfig, artist: string, signal: AbortSignal) {
+  return fetchTopTags(config, { method: 'artist.gettoptags', artist }, signal);
+}
+
+// Count-weighted average of the known tags; null when none of them are in the vocabulary
+export function mapTagsToFeatures(tags: LastFmTag[]): ProviderResult | null {
+  let energySum = 0;
+  let energyWeight = 0;
+  let valenceSum = 0;
+  let valenceWeight = 0;
+  let genre: string | undefined;
+  let genreWeight = 0;
+
+  for (const tag of tags) {
+    const features = TAG_FEATURES[tag.name];
+    if (!features) continue;
+
+    const weight = Math.max(1, tag.count);
+    if (features.energy !== undefined) {
+      energySum += features.energy * weight;
+      energyWeight += weight;
+    }
+    if (features.valence !== undefined) {
+      valenceSum += features.valence * weight;
+      valenceWeight += weight;
+    }
+    if (features.genre && weight > genreWeight) {
+      genre = features.genre;
+      genreWeight = weight;
+    }
+  }
+
+  if (energyWeight === 0 && valenceWeight === 0 && !genre) return null;
+
+  return {
+    energy: energyWeight > 0 ? energySum / energyWeight : undefined,
+    valence: valenceWeight > 0 ? valenceSum / valenceWeight : undefined,
+    genre,
+    tags: [...new Set(tags.map(tag => tag.name))].slice(0, 10),
+  };
+}
+
+// Reads LASTFM_API_KEY / LASTFM_API_URL unless a config is given; null when there is no key
+export function createLastFmProvider(config?: Partial<LastFmConfig>): MetadataProvider | null {
+  const apiKey = config?.apiKey ?? process.env.LASTFM_API_KEY;
+  if (!apiKey) return null;
+
+  const resolved: LastFmConfig = { apiKey, apiUrl: config?.apiUrl ?? process.env.LASTFM_API_URL };
+
+  return {
+    name: 'lastfm',
+    async lookup(query: TrackQuery, signal: AbortSignal) {
+      const trackTags = await getTrackTopTags(resolved, query.artist, query.track, signal);
+
+      // Sparse track tags are topped up from the artist, at a lower weight
+      let tags = trackTags;
+      if (trackTags.length < MIN_TRACK_TAGS) {
+        const artistTags = await getArtistTopTags(resolved, query.artist, signal);
+        tags = [...trackTags, ...artistTags.map(tag => ({ ...tag, count: tag.count * ARTIST_TAG_WEIGHT }))];
+      }
+
+      return mapTagsToFeatures(tags);
+    },
+  };
+}
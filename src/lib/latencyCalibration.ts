@@ -0,0 +1,137 @@
+// Audio-to-visual latency: what the user hears can lag (Bluetooth) or lead (tab capture
+// buffering) what the analyser sees. A per-output-device offset shifts the visuals to match:
+// positive delays frames, negative fires beats early off the tracked tempo.
+
+import type { AudioData } from '@/hooks/useSpotifyPlayer';
+import type { BeatEvent, OnsetEvent } from '@/lib/beatDetector';
+import type { SectionEvent } from '@/lib/sectionTracker';
+import { TEMPO_CONFIDENCE_THRESHOLD, type TempoEstimate } from '@/lib/tempoTracker';
+
+export const LATENCY_LIMIT_MS = 400;
+
+const STORAGE_KEY = 'waveline.latencyOffsets';
+// Longer than the largest delay at 60fps, with headroom for fast displays
+const MAX_BUFFERED_FRAMES = 120;
+// Fraction of the predicted beat pulse left after one second, matching the beat detector
+const PULSE_DECAY = 0.02;
+
+export interface OutputDevice {
+  key: string; // what offsets are stored under
+  label: string;
+}
+
+export function clampLatency(offset: number): number {
+  return Math.round(Math.max(-LATENCY_LIMIT_MS, Math.min(LATENCY_LIMIT_MS, offset)));
+}
+
+function readOffsets(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Failed to read latency offsets:', error);
+    return {};
+  }
+}
+
+export function loadLatencyOffset(device: OutputDevice): number {
+  const offset = readOffsets()[device.key];
+  return typeof offset === 'number' ? clampLatency(offset) : 0;
+}
+
+export function saveLatencyOffset(device: OutputDevice, offset: number) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readOffsets(), [device.key]: clampLatency(offset) }));
+  } catch (error) {
+    console.warn('Failed to save latency offset:', error);
+  }
+}
+
+// Device ids change between sessions and origins, so offsets are keyed by label where the
+// browser exposes one; the default output resolves to whatever it currently points at
+export async function getOutputDevice(context?: AudioContext | null): Promise<OutputDevice> {
+  const sinkId = context && 'sinkId' in context && typeof context.sinkId === 'string' ? context.sinkId : '';
+
+  try {
+    const devices = await navigator.mediaDevices?.enumerateDevices?.() ?? [];
+    const outputs = devices.filter(device => device.kind === 'audiooutput');
+    const output = outputs.find(device => device.deviceId === (sinkId || 'default')) ?? (sinkId ? undefined : outputs[0]);
+    const label = output?.label.replace(/^Default - /, '');
+    if (label) return { key: `label:${label}`, label };
+  } catch (error) {
+    console.warn('Failed to list output devices:', error);
+  }
+
+  return sinkId ? { key: `sink:${sinkId}`, label: 'Selected output' } : { key: 'default', label: 'Default output' };
+}
+
+// Holds frames back by the offset; events from frames released together are merged so none are lost
+export class FrameDelayBuffer {
+  private frames: Array<{ time: number; data: AudioData }> = [];
+
+  public push(data: AudioData, time: number) {
+    this.frames.push({ time, data });
+    if (this.frames.length > MAX_BUFFERED_FRAMES) this.frames.shift();
+  }
+
+  // Latest frame that is at least `delay` ms old, or null when none has come due
+  public pull(time: number, delay: number): AudioData | null {
+    let released: AudioData | null = null;
+    let onset: OnsetEvent | null = null;
+    let beat: BeatEvent | null = null;
+    let sectionEvent: SectionEvent | null = null;
+
+    while (this.frames.length > 0 && this.frames[0].time <= time - delay) {
+      released = this.frames.shift()!.data;
+      if (released.onset && (!onset || released.onset.strength > onset.strength)) onset = released.onset;
+      if (released.beat && (!beat || released.beat.strength > beat.strength)) beat = released.beat;
+      // A later boundary supersedes an earlier one in the same batch
+      if (released.section?.event) sectionEvent = released.section.event;
+    }
+
+    if (!released) return null;
+    const section = released.section && { ...released.section, event: sectionEvent };
+    return { ...released, onset, beat, section };
+  }
+
+  public clear() {
+    this.frames = [];
+  }
+}
+
+// Live audio can't be read ahead, so beats are predicted from the tempo grid and fired early.
+// Until the tempo is confident the detected beats pass through unchanged.
+export class BeatLookahead {
+  private lastBeat = -Infinity; // predicted beat time, analysis clock
+  private firedAt = -Infinity;
+
+  public process(data: AudioData, time: number, lookAhead: number): AudioData {
+    const tempo: TempoEstimate | null = data.tempo;
+    if (!tempo || tempo.confidence < TEMPO_CONFIDENCE_THRESHOLD || tempo.bpm <= 0) return data;
+
+    const period = 60000 / tempo.bpm;
+    // Most recent grid beat that should already be showing once shifted forward
+    const predicted = tempo.lastBeatTime + period * Math.floor((time + lookAhead - tempo.lastBeatTime) / period);
+
+    let beat: BeatEvent | null = null;
+    // Half a period of slack absorbs the grid shifting as the tracker re-estimates
+    if (predicted - this.lastBeat > period / 2) {
+      beat = {
+        time,
+        strength: data.beat?.strength ?? tempo.confidence,
+        confidence: tempo.confidence,
+        interval: Number.isFinite(this.lastBeat) ? predicted - this.lastBeat : null,
+      };
+      this.lastBeat = predicted;
+      this.firedAt = time;
+    }
+
+    const beatPulse = Number.isFinite(this.firedAt) ? Math.pow(PULSE_DECAY, (time - this.firedAt) / 1000) : 0;
+    return { ...data, beat, beatPulse };
+  }
+
+  public reset() {
+    this.lastBeat = -Infinity;
+    this.firedAt = -Infinity;
+  }
+}
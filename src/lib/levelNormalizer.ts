@@ -0,0 +1,143 @@
+// Automatic gain control: scales levels against a rolling percentile of their recent history
+
+export interface Levels {
+  volume: number;
+  bassLevel: number;
+  midLevel: number;
+  trebleLevel: number;
+}
+
+export interface LevelNormalizerOptions {
+  windowSeconds?: number; // history the percentile is taken over
+  percentile?: number; // 0-1, the level treated as "loud" for this track
+  targetLevel?: number; // where the percentile lands after normalisation
+  attack?: number; // ms for the reference to rise toward a louder percentile
+  release?: number; // ms for the reference to fall toward a quieter one
+}
+
+const DEFAULT_OPTIONS: Required<LevelNormalizerOptions> = {
+  windowSeconds: 10,
+  percentile: 0.95,
+  targetLevel: 0.9,
+  attack: 300,
+  release: 3000,
+};
+
+// History is decimated so the percentile sort stays small regardless of frame rate
+const HISTORY_RATE = 10; // Hz
+const SAMPLE_MS = 1000 / HISTORY_RATE;
+// Keeps near-silence from being amplified into full-scale noise
+const MIN_REFERENCE = 0.08;
+
+const LEVEL_KEYS = ['volume', 'bassLevel', 'midLevel', 'trebleLevel'] as const;
+type Channel = (typeof LEVEL_KEYS)[number] | 'bands';
+
+class RollingReference {
+  private history: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+  private bucketStart: number | null = null;
+  private bucketValue = 0;
+  private target = MIN_REFERENCE;
+  public reference = MIN_REFERENCE;
+
+  constructor(size: number) {
+    this.history = new Float32Array(size);
+  }
+
+  public update(value: number, time: number, dt: number, options: Required<LevelNormalizerOptions>) {
+    if (this.bucketStart === null) this.bucketStart = time;
+
+    if (time - this.bucketStart >= SAMPLE_MS) {
+      this.push(this.bucketValue);
+      this.bucketValue = 0;
+      this.bucketStart = time;
+      this.target = Math.max(MIN_REFERENCE, this.percentile(options.percentile));
+    }
+    this.bucketValue = Math.max(this.bucketValue, value);
+
+    // Attack/release envelope toward the current percentile
+    const timeConstant = this.target > this.reference ? options.attack : options.release;
+    const alpha = timeConstant > 0 ? 1 - Math.exp(-dt / timeConstant) : 1;
+    this.reference += (this.target - this.reference) * alpha;
+  }
+
+  public reset() {
+    this.history.fill(0);
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.bucketStart = null;
+    this.bucketValue = 0;
+    this.target = MIN_REFERENCE;
+    this.reference = MIN_REFERENCE;
+  }
+
+  private push(value: number) {
+    this.history[this.writeIndex] = value;
+    this.writeIndex = (this.writeIndex + 1) % this.history.length;
+    this.filled = Math.min(this.filled + 1, this.history.length);
+  }
+
+  private percentile(p: number): number {
+    if (this.filled === 0) return 0;
+    const sorted = this.history.slice(0, this.filled).sort();
+    return sorted[Math.min(this.filled - 1, Math.floor(p * this.filled))];
+  }
+}
+
+export class LevelNormalizer {
+  private options: Required<LevelNormalizerOptions>;
+  private references: Record<Channel, RollingReference>;
+  private lastTime: number | null = null;
+
+  constructor(options: LevelNormalizerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    const size = Math.round(this.options.windowSeconds * HISTORY_RATE);
+    this.references = {
+      volume: new RollingReference(size),
+      bassLevel: new RollingReference(size),
+      midLevel: new RollingReference(size),
+      trebleLevel: new RollingReference(size),
+      bands: new RollingReference(size),
+    };
+  }
+
+  public configure(options: LevelNormalizerOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Returns the normalised levels and bands; time is in ms
+  public process(levels: Levels, bands: Float32Array, time: number): { levels: Levels; bands: Float32Array } {
+    const dt = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    const normalized = { ...levels };
+    for (const key of LEVEL_KEYS) {
+      const reference = this.references[key];
+      reference.update(levels[key], time, dt, this.options);
+      normalized[key] = this.scale(levels[key], reference.reference);
+    }
+
+    // Bands share one gain so the spectrum keeps its shape
+    let loudestBand = 0;
+    for (let i = 0; i < bands.length; i++) loudestBand = Math.max(loudestBand, bands[i]);
+    const bandReference = this.references.bands;
+    bandReference.update(loudestBand, time, dt, this.options);
+
+    const normalizedBands = new Float32Array(bands.length);
+    for (let i = 0; i < bands.length; i++) {
+      normalizedBands[i] = this.scale(bands[i], bandReference.reference);
+    }
+
+    return { levels: normalized, bands: normalizedBands };
+  }
+
+  public reset() {
+    Object.values(this.references).forEach(reference => reference.reset());
+    this.lastTime = null;
+  }
+
+  private scale(value: number, reference: number): number {
+    return Math.max(0, Math.min(1, (value / reference) * this.options.targetLevel));
+  }
+}
@@ -0,0 +1,89 @@
+// Pluggable chain of track-metadata sources, tried in order with per-provider timeouts
+
+import type { TrackAnalysis } from '@/lib/audioAnalysis';
+
+export interface TrackQuery {
+  id: string; // Spotify track id, used as the cache key by providers that cache
+  artist: string;
+  track: string;
+  album?: string;
+  isrc?: string;
+}
+
+export interface ProviderResult extends Partial<Omit<TrackAnalysis, 'id' | 'source'>> {
+  tags?: string[];
+}
+
+export interface MetadataProvider {
+  name: TrackAnalysis['source'];
+  timeoutMs?: number; // overrides the chain default for slow sources
+  // Resolve to null when the source has nothing for this track
+  lookup(query: TrackQuery, signal: AbortSignal): Promise<ProviderResult | null>;
+}
+
+export interface ChainResult extends ProviderResult {
+  source: TrackAnalysis['source'];
+}
+
+const DEFAULT_TIMEOUT_MS = 4000;
+
+async function lookupWithTimeout(provider: MetadataProvider, query: TrackQuery, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await provider.lookup(query, controller.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// First provider with a result wins; failures and timeouts fall through to the next one
+export async function runProviderChain(
+  providers: MetadataProvider[],
+  query: TrackQuery,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<ChainResult | null> {
+  for (const provider of providers) {
+    try {
+      const result = await lookupWithTimeout(provider, query, provider.timeoutMs ?? timeoutMs);
+      if (result) {
+        return { ...result, source: provider.name };
+      }
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'AbortError' ? 'timed out' : error;
+      console.warn(`Metadata provider ${provider.name} failed:`, reason);
+    }
+  }
+
+  return null;
+}
+
+// Every provider at once, merged field by field with earlier providers winning; tags are
+// pooled. The source is the first provider that answered. Costs the slowest provider's
+// time instead of the sum, and lets MusicBrainz fill what Last.fm tags can't (release year).
+export async function runAllProviders(
+  providers: MetadataProvider[],
+  query: TrackQuery,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<ChainResult | null> {
+  const results = await Promise.all(providers.map(async provider => {
+    try {
+      return await lookupWithTimeout(provider, query, provider.timeoutMs ?? timeoutMs);
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'AbortError' ? 'timed out' : error;
+      console.warn(`Metadata provider ${provider.name} failed:`, reason);
+      return null;
+    }
+  }));
+
+  return results.reduce<ChainResult | null>((merged, result, index) => {
+    if (!result) return merged;
+    const defined = Object.fromEntries(
+      Object.entries(result).filter(([, value]) => value !== undefined)
+    ) as ProviderResult;
+    return merged
+      ? { ...defined, ...merged, tags: [...new Set([...(merged.tags ?? []), ...(defined.tags ?? [])])] }
+      : { ...defined, source: providers[index].name };
+  }, null);
+}
@@ -0,0 +1,169 @@
+// MusicBrainz recording lookup (by ISRC, else artist + title) for genre, release year and BPM/key tags
+
+import type { MetadataProvider, ProviderResult, TrackQuery } from '@/lib/metadataProviders';
+
+// MUSICBRAINZ_API_URL lets a mirror or local fixture server stand in for the real API
+const DEFAULT_API_URL = 'https://musicbrainz.org/ws/2/';
+// MusicBrainz rejects anonymous clients; https://musicbrainz.org/doc/MusicBrainz_API/Rate_Limiting
+const DEFAULT_USER_AGENT = 'Waveline/0.1.0 ( https://github.com/RealSaake/waveline )';
+const MIN_REQUEST_INTERVAL_MS = 1000;
+const MIN_SEARCH_SCORE = 80;
+const CACHE_LIMIT = 500;
+
+interface MusicBrainzConfig {
+  apiUrl?: string;
+  userAgent?: string;
+}
+
+interface MusicBrainzTag {
+  name: string;
+  count: number;
+}
+
+interface MusicBrainzRecording {
+  id: string;
+  title: string;
+  score?: number;
+  'first-release-date'?: string;
+  genres?: MusicBrainzTag[];
+  tags?: MusicBrainzTag[];
+}
+
+// Serialises requests so they go out at most once per interval, across every caller
+class RequestThrottle {
+  private queue: Promise<void> = Promise.resolve();
+  private lastRequest = 0;
+  private interval: number;
+
+  constructor(interval: number) {
+    this.interval = interval;
+  }
+
+  public schedule<T>(task: () => Promise<T>, signal: AbortSignal): Promise<T> {
+    const run = this.queue.then(async () => {
+      const wait = this.lastRequest + this.interval - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      this.lastRequest = Date.now();
+      if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+      return task();
+    });
+
+    // A failed request must not stall the ones queued behind it
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+}
+
+const throttle = new RequestThrottle(MIN_REQUEST_INTERVAL_MS);
+
+// Keyed by Spotify track id; null records a miss so it isn't looked up again
+const cache = new Map<string, ProviderResult | null>();
+
+function remember(id: string, result: ProviderResult | null) {
+  if (!id) return;
+  cache.delete(id);
+  cache.set(id, result);
+  if (cache.size > CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+function escapeLucene(value: string): string {
+  return value.replace(/([+\-&|!(){}[\]^"~*?:\\/])/g, '\\$1');
+}
+
+async function request<T>(config: MusicBrainzConfig, path: string, params: Record<string, string>, signal: AbortSignal): Promise<T | null> {
+  const url = new URL(path, config.apiUrl ?? DEFAULT_API_URL);
+  Object.entries({ ...params, fmt: 'json' }).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  return throttle.schedule(async () => {
+    const response = await fetch(url, {
+      signal,
+      headers: { 'User-Agent': config.userAgent ?? DEFAULT_USER_AGENT, Accept: 'application/json' },
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`MusicBrainz API error: ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }, signal);
+}
+
+async function findRecordingId(config: MusicBrainzConfig, query: TrackQuery, signal: AbortSignal): Promise<string | null> {
+  if (query.isrc) {
+    const data = await request<{ recordings?: MusicBrainzRecording[] }>(config, `isrc/${encodeURIComponent(query.isrc)}`, {}, signal);
+    const recording = data?.recordings?.[0];
+    if (recording) return recording.id;
+  }
+
+  const search = `artist:"${escapeLucene(query.artist)}" AND recording:"${escapeLucene(query.track)}"`;
+  const data = await request<{ recordings?: MusicBrainzRecording[] }>(config, 'recording', { query: search, limit: '5' }, signal);
+  const best = data?.recordings
+    ?.filter(recording => (recording.score ?? 0) >= MIN_SEARCH_SCORE)
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))[0];
+
+  return best?.id ?? null;
+}
+
+// Community tags like "128 bpm" or "key: F# minor"
+export function parseTempoTag(tag: string): number | undefined {
+  const match = tag.match(/^(?:bpm[:\s]*)?(\d{2,3}(?:\.\d+)?)\s*(?:bpm)?$/i);
+  if (!match || !/bpm/i.test(tag)) return undefined;
+  const bpm = parseFloat(match[1]);
+  return bpm >= 40 && bpm <= 250 ? bpm : undefined;
+}
+
+export function parseKeyTag(tag: string): string | undefined {
+  const match = tag.match(/^(?:key[:\s]*)?([a-g])\s*([#b♯♭]?)\s*(major|minor|maj|min)$/i);
+  if (!match) return undefined;
+  const accidental = match[2] === '♯' ? '#' : match[2] === '♭' ? 'b' : match[2];
+  const mode = match[3].toLowerCase().startsWith('maj') ? 'major' : 'minor';
+  return `${match[1].toUpperCase()}${accidental} ${mode}`;
+}
+
+export function mapRecording(recording: MusicBrainzRecording): ProviderResult | null {
+  const byCount = (a: MusicBrainzTag, b: MusicBrainzTag) => b.count - a.count;
+  const genres = [...(recording.genres ?? [])].sort(byCount);
+  const tags = [...(recording.tags ?? [])].sort(byCount).map(tag => tag.name.toLowerCase());
+  const year = parseInt(recording['first-release-date']?.slice(0, 4) ?? '', 10);
+
+  const result: ProviderResult = {
+    genre: genres[0]?.name.replace(/\b\w/g, letter => letter.toUpperCase()),
+    releaseYear: Number.isFinite(year) ? year : undefined,
+    tempo: tags.map(parseTempoTag).find(bpm => bpm !== undefined),
+    key: tags.map(parseKeyTag).find(key => key !== undefined),
+    tags: tags.slice(0, 10),
+  };
+
+  const hasData = result.genre || result.releaseYear || result.tempo || result.key;
+  return hasData ? result : null;
+}
+
+// Reads MUSICBRAINZ_API_URL unless a config is given; needs no API key
+export function createMusicBrainzProvider(config: MusicBrainzConfig = {}): MetadataProvider {
+  const resolved: MusicBrainzConfig = {
+    apiUrl: config.apiUrl ?? process.env.MUSICBRAINZ_API_URL,
+    userAgent: config.userAgent,
+  };
+
+  return {
+    name: 'musicbrainz',
+    // Two throttled requests plus any queued behind other lookups
+    timeoutMs: 8000,
+    async lookup(query: TrackQuery, signal: AbortSignal) {
+      if (cache.has(query.id)) {
+        return cache.get(query.id) ?? null;
+      }
+
+      const recordingId = await findRecordingId(resolved, query, signal);
+      const recording = recordingId
+        ? await request<MusicBrainzRecording>(resolved, `recording/${recordingId}`, { inc: 'genres+tags' }, signal)
+        : null;
+
+      const result = recording ? mapRecording(recording) : null;
+      remember(query.id, result);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// High-resolution playback position between Spotify's sparse state updates. Position is
+// extrapolated from the last report; small disagreements on resync are slewed out over a
+// short window instead of jumping, while seeks, pauses and track changes snap immediately.
+
+export interface PlaybackReport {
+  trackId: string;
+  position: number; // ms
+  duration: number; // ms
+  playing: boolean;
+  at?: number; // performance.now() the position was true at; defaults to now
+}
+
+// Beyond this the report is a seek rather than drift
+const SNAP_THRESHOLD = 750; // ms
+const SLEW_DURATION = 500; // ms to absorb a correction
+
+export class PlaybackClock {
+  private report: Required<PlaybackReport> | null = null;
+  private correction = 0; // ms the shown position still trails (negative) or leads the report
+  private correctedAt = 0;
+
+  public sync(report: PlaybackReport) {
+    const at = report.at ?? performance.now();
+    const previous = this.report;
+    const predicted = this.getPosition(at);
+
+    this.report = { ...report, at };
+
+    const continuous = previous !== null
+      && predicted !== null
+      && previous.trackId === report.trackId
+      && previous.playing === report.playing
+      && Math.abs(predicted - report.position) < SNAP_THRESHOLD;
+
+    // Keep showing the predicted position and ease towards the reported one
+    this.correction = continuous ? predicted! - report.position : 0;
+    this.correctedAt = at;
+  }
+
+  public getPosition(now = performance.now()): number | null {
+    const report = this.report;
+    if (!report) return null;
+
+    const elapsed = report.playing ? Math.max(0, now - report.at) : 0;
+    const remaining = Math.max(0, 1 - (now - this.correctedAt) / SLEW_DURATION);
+    const position = report.position + elapsed + this.correction * remaining;
+    return Math.max(0, report.duration > 0 ? Math.min(report.duration, position) : position);
+  }
+
+  public get duration(): number {
+    return this.report?.duration ?? 0;
+  }
+
+  public get playing(): boolean {
+    return this.report?.playing ?? false;
+  }
+
+  public reset() {
+    this.report = null;
+    this.correction = 0;
+  }
+}
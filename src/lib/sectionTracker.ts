@@ -0,0 +1,288 @@
+// Live song-structure segmentation (intro, build, drop, breakdown, outro) from energy
+// trends and spectral novelty on the analyser stream
+
+export type SectionType = 'intro' | 'build' | 'drop' | 'breakdown' | 'outro';
+
+export interface SectionEvent {
+  type: SectionType;
+  previous: SectionType | null;
+  time: number; // ms, same clock as the frames passed to process()
+  intensity: number; // 0-1, how sharp the change was
+}
+
+export interface SectionState {
+  current: SectionType;
+  startedAt: number; // ms
+  energy: number; // 0-1 short-term energy relative to the loudest stretch of the track so far
+  trend: number; // energy slope over the last few seconds, per second
+  novelty: number; // 0-1 spectral change between the last few seconds and the ones before
+  event: SectionEvent | null; // set only on the frame a new section starts
+}
+
+export interface SectionFeatures {
+  energy: number; // un-normalised loudness; gain control would flatten the very changes we look for
+  bands: Float32Array; // un-normalised perceptual bands
+  progress?: number; // 0-1 position in the track when known, enables outro detection
+}
+
+export type SectionListener = (event: SectionEvent) => void;
+
+export interface SectionTrackerOptions {
+  minSectionMs?: number; // shortest section before another boundary may fire
+  dropJump?: number; // short/long energy ratio that counts as a drop
+  breakdownFall?: number; // short/long energy ratio that counts as a breakdown
+  buildSlope?: number; // relative energy rise per second that counts as a build
+  outroProgress?: number; // track position after which falling energy is an outro
+}
+
+const DEFAULT_OPTIONS: Required<SectionTrackerOptions> = {
+  minSectionMs: 4000,
+  dropJump: 1.3,
+  breakdownFall: 0.65,
+  buildSlope: 0.04,
+  outroProgress: 0.85,
+};
+
+// Features are decimated to a fixed rate so frame-rate jitter doesn't skew the trends
+const FEATURE_RATE = 10; // Hz
+const SAMPLE_MS = 1000 / FEATURE_RATE;
+const SHORT_SECONDS = 1.5;
+const LONG_SECONDS = 12;
+const TREND_SECONDS = 4;
+const NOVELTY_RECENT = 2 * FEATURE_RATE;
+const NOVELTY_HISTORY = 6 * FEATURE_RATE;
+const NOVELTY_BANDS = 16;
+// A drop may interrupt a build sooner than the usual minimum section length
+const DROP_MIN_BUILD_MS = 2000;
+// Energy has to keep rising this long before it counts as a build rather than a step
+const BUILD_SUSTAIN_MS = 2000;
+// A drop is a jump: energy must also have risen this much within the last couple of seconds
+const DROP_STEP_SECONDS = 2;
+const DROP_STEP_RATIO = 1.25;
+
+export class SectionTracker {
+  private options: Required<SectionTrackerOptions>;
+  private listeners = new Set<SectionListener>();
+  private bucketStart: number | null = null;
+  private bucketEnergy = 0;
+  private bucketBands = new Float32Array(NOVELTY_BANDS);
+  private bucketFrames = 0;
+  private shortEnergy = 0;
+  private longEnergy = 0;
+  private peakEnergy = 0;
+  private energyHistory: number[] = [];
+  private bandHistory: Float32Array[] = [];
+  private state: SectionState | null = null;
+  private risingSince: number | null = null;
+
+  constructor(options: SectionTrackerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public subscribe(listener: SectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Announces a boundary to subscribers without touching the tracker's own state. process()
+  // doesn't announce its own events: the caller does once the frame carrying one is shown,
+  // so delayed, live and replayed frames all reach subscribers in step with the visuals.
+  public dispatch(event: SectionEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Feed one frame of features; time is in ms
+  public process(features: SectionFeatures, time: number): SectionState {
+    if (this.bucketStart === null) {
+      this.bucketStart = time;
+      this.state = { current: 'intro', startedAt: time, energy: 0, trend: 0, novelty: 0, event: null };
+    }
+
+    this.accumulate(features);
+
+    let event: SectionEvent | null = null;
+    if (time - this.bucketStart >= SAMPLE_MS) {
+      this.bucketStart = time;
+      this.pushSample();
+      event = this.classify(time, features.progress);
+    }
+
+    this.state = { ...this.state!, event };
+    return this.state;
+  }
+
+  public getState(): SectionState | null {
+    return this.state;
+  }
+
+  public reset() {
+    this.bucketStart = null;
+    this.bucketEnergy = 0;
+    this.bucketBands.fill(0);
+    this.bucketFrames = 0;
+    this.shortEnergy = 0;
+    this.longEnergy = 0;
+    this.peakEnergy = 0;
+    this.energyHistory = [];
+    this.bandHistory = [];
+    this.state = null;
+    this.risingSince = null;
+  }
+
+  private accumulate(features: SectionFeatures) {
+    this.bucketEnergy += features.energy;
+    const groupSize = Math.max(1, features.bands.length / NOVELTY_BANDS);
+    for (let i = 0; i < features.bands.length; i++) {
+      this.bucketBands[Math.min(NOVELTY_BANDS - 1, Math.floor(i / groupSize))] += features.bands[i];
+    }
+    this.bucketFrames++;
+  }
+
+  private pushSample() {
+    const frames = Math.max(1, this.bucketFrames);
+    const energy = this.bucketEnergy / frames;
+    const bands = this.bucketBands.map(value => value / frames);
+    this.bucketEnergy = 0;
+    this.bucketBands = new Float32Array(NOVELTY_BANDS);
+    this.bucketFrames = 0;
+
+    // Start the averages at the first level so the track starting isn't mistaken for a drop
+    if (this.energyHistory.length === 0) {
+      this.shortEnergy = energy;
+      this.longEnergy = energy;
+    }
+
+    const shortAlpha = 1 - Math.exp(-1 / (SHORT_SECONDS * FEATURE_RATE));
+    const longAlpha = 1 - Math.exp(-1 / (LONG_SECONDS * FEATURE_RATE));
+    this.shortEnergy += (energy - this.shortEnergy) * shortAlpha;
+    this.longEnergy += (energy - this.longEnergy) * longAlpha;
+    // Loudest stretch so far, slowly forgotten so one spike doesn't dwarf the rest of the track
+    this.peakEnergy = Math.max(this.shortEnergy, this.peakEnergy * 0.9995);
+
+    this.energyHistory.push(this.shortEnergy);
+    if (this.energyHistory.length > TREND_SECONDS * FEATURE_RATE) this.energyHistory.shift();
+
+    this.bandHistory.push(bands);
+    if (this.bandHistory.length > NOVELTY_HISTORY) this.bandHistory.shift();
+  }
+
+  // Least-squares slope of the recent energy, relative to the track peak, per second
+  private trend(): number {
+    const n = this.energyHistory.length;
+    if (n < 2 || this.peakEnergy <= 0) return 0;
+
+    let sumX = 0;
+    let sumY = 0;
+    let sumXY = 0;
+    let sumXX = 0;
+    for (let i = 0; i < n; i++) {
+      const x = i / FEATURE_RATE;
+      const y = this.energyHistory[i] / this.peakEnergy;
+      sumX += x;
+      sumY += y;
+      sumXY += x * y;
+      sumXX += x * x;
+    }
+
+    const denominator = n * sumXX - sumX * sumX;
+    return denominator > 0 ? (n * sumXY - sumX * sumY) / denominator : 0;
+  }
+
+  // Cosine distance between the mean spectrum of the last couple of seconds and the seconds before
+  private novelty(): number {
+    if (this.bandHistory.length < NOVELTY_RECENT * 2) return 0;
+
+    const recentStart = this.bandHistory.length - NOVELTY_RECENT;
+    const recent = new Float32Array(NOVELTY_BANDS);
+    const earlier = new Float32Array(NOVELTY_BANDS);
+
+    this.bandHistory.forEach((bands, index) => {
+      const target = index >= recentStart ? recent : earlier;
+      for (let i = 0; i < NOVELTY_BANDS; i++) target[i] += bands[i];
+    });
+
+    let dot = 0;
+    let recentNorm = 0;
+    let earlierNorm = 0;
+    for (let i = 0; i < NOVELTY_BANDS; i++) {
+      dot += recent[i] * earlier[i];
+      recentNorm += recent[i] * recent[i];
+      earlierNorm += earlier[i] * earlier[i];
+    }
+
+    const denominator = Math.sqrt(recentNorm * earlierNorm);
+    return denominator > 0 ? Math.max(0, Math.min(1, (1 - dot / denominator) * 5)) : 0;
+  }
+
+  private classify(time: number, progress?: number): SectionEvent | null {
+    const state = this.state!;
+    const energy = this.peakEnergy > 0 ? this.shortEnergy / this.peakEnergy : 0;
+    const ratio = this.longEnergy > 1e-4 ? this.shortEnergy / this.longEnergy : 1;
+    const trend = this.trend();
+    const novelty = this.novelty();
+    const elapsed = time - state.startedAt;
+    const stepBase = this.energyHistory[Math.max(0, this.energyHistory.length - 1 - DROP_STEP_SECONDS * FEATURE_RATE)];
+    const step = stepBase > 1e-4 ? this.shortEnergy / stepBase : 1;
+
+    this.state = { ...state, energy, trend, novelty };
+
+    if (trend < this.options.buildSlope) {
+      this.risingSince = null;
+    } else if (this.risingSince === null) {
+      this.risingSince = time;
+    }
+
+    // Not enough history yet to tell a trend from the track simply starting
+    if (this.energyHistory.length < TREND_SECONDS * FEATURE_RATE) return null;
+
+    let next: SectionType | null = null;
+    let intensity = 0;
+
+    if (
+      state.current !== 'drop' &&
+      ratio >= this.options.dropJump &&
+      step >= DROP_STEP_RATIO &&
+      energy > 0.75 &&
+      elapsed >= (state.current === 'build' ? DROP_MIN_BUILD_MS : this.options.minSectionMs)
+    ) {
+      next = 'drop';
+      intensity = Math.min(1, (ratio - 1) * 2 + novelty * 0.5);
+    } else if (elapsed < this.options.minSectionMs) {
+      return null;
+    } else if (
+      progress !== undefined &&
+      progress >= this.options.outroProgress &&
+      state.current !== 'outro' &&
+      trend < 0
+    ) {
+      next = 'outro';
+      intensity = Math.min(1, -trend * 10);
+    } else if (
+      (state.current === 'drop' || state.current === 'build') &&
+      ratio <= this.options.breakdownFall
+    ) {
+      next = 'breakdown';
+      intensity = Math.min(1, (1 - ratio) + novelty * 0.5);
+    } else if (
+      state.current !== 'build' &&
+      state.current !== 'outro' &&
+      this.risingSince !== null &&
+      time - this.risingSince >= BUILD_SUSTAIN_MS &&
+      ratio < this.options.dropJump
+    ) {
+      next = 'build';
+      intensity = Math.min(1, trend / (this.options.buildSlope * 4));
+    } else if (state.current === 'drop' && energy < 0.6 && novelty > 0.3) {
+      // The drop has settled into a verse-like level without a clear breakdown
+      next = 'breakdown';
+      intensity = novelty;
+    }
+
+    if (!next || next === state.current) return null;
+
+    this.state = { ...this.state, current: next, startedAt: time };
+    return { type: next, previous: state.current, time, intensity };
+  }
+}
@@ -0,0 +1,294 @@
+// Record the per-frame AudioData stream with its track and Visual DNA, and play it back
+// frame-for-frame so a misbehaving mode can be reproduced without the audio that caused it.
+//
+// Files are JSON (gzipped where the browser can): spectra, bands and waveforms are quantised
+// to bytes and base64 encoded per frame; everything else is stored as-is.
+
+import type { AudioData, TrackInfo } from '@/hooks/useSpotifyPlayer';
+import type { TrackAnalysis } from '@/lib/audioAnalysis';
+import type { ChannelData } from '@/lib/stereoAnalyser';
+import type { BeatEvent, OnsetEvent } from '@/lib/beatDetector';
+import type { SectionEvent } from '@/lib/sectionTracker';
+
+export const SESSION_FORMAT_VERSION = 1;
+export const SESSION_FILE_EXTENSION = '.waveline.json';
+
+// Five minutes at 60fps; the oldest frames are dropped beyond this
+const MAX_FRAMES = 5 * 60 * 60;
+
+type ChannelLevels = Omit<ChannelData, 'frequencies' | 'bands'>;
+
+interface EncodedFrame {
+  t: number; // ms since the recording started
+  f: string; // frequencies, bytes
+  b: string; // bands, 0-1 as bytes
+  rb: string; // raw bands
+  w: string; // waveform, -1 to 1 as signed bytes
+  c: string; // chroma
+  lb: string; // left channel bands
+  rcb: string; // right channel bands
+  s: Omit<AudioData, 'frequencies' | 'bands' | 'rawBands' | 'waveform' | 'chroma' | 'stereo'> & {
+    stereo: { width: number; balance: number; correlation: number; left: ChannelLevels; right: ChannelLevels };
+  };
+}
+
+export interface SessionMetadata {
+  track: TrackInfo | null;
+  trackAnalysis: TrackAnalysis | null;
+  trackInfo?: unknown; // AI analysis and Visual DNA as the visualizer had it
+  sampleRate: number;
+}
+
+export interface RecordedSession extends SessionMetadata {
+  version: number;
+  createdAt: string;
+  durationMs: number;
+  frames: EncodedFrame[];
+}
+
+export interface ReplayFrame {
+  data: AudioData;
+  time: number; // ms since the recording started
+  sectionEvents: SectionEvent[]; // boundaries crossed since the previous frame returned
+}
+
+function toBase64(bytes: Uint8Array | Int8Array): string {
+  const view = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let binary = '';
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function quantize(values: Float32Array): string {
+  return toBase64(Uint8Array.from(values, value => Math.round(Math.max(0, Math.min(1, value)) * 255)));
+}
+
+function dequantize(value: string): Float32Array {
+  return Float32Array.from(fromBase64(value), byte => byte / 255);
+}
+
+function channelLevels({ rms, bassLevel, midLevel, trebleLevel }: ChannelData): ChannelLevels {
+  return { rms, bassLevel, midLevel, trebleLevel };
+}
+
+export function encodeFrame(time: number, data: AudioData): EncodedFrame {
+  const { frequencies, bands, rawBands, waveform, chroma, stereo, ...scalars } = data;
+
+  return {
+    t: Math.round(time),
+    f: toBase64(frequencies),
+    b: quantize(bands),
+    rb: quantize(rawBands),
+    w: toBase64(Int8Array.from(waveform, sample => Math.round(Math.max(-1, Math.min(1, sample)) * 127))),
+    c: quantize(chroma),
+    lb: quantize(stereo.left.bands),
+    rcb: quantize(stereo.right.bands),
+    s: {
+      ...scalars,
+      stereo: {
+        width: stereo.width,
+        balance: stereo.balance,
+        correlation: stereo.correlation,
+        left: channelLevels(stereo.left),
+        right: channelLevels(stereo.right),
+      },
+    },
+  };
+}
+
+export function decodeFrame(frame: EncodedFrame): AudioData {
+  const { stereo, ...scalars } = frame.s;
+  const waveformBytes = fromBase64(frame.w);
+  const signed = new Int8Array(waveformBytes.buffer, waveformBytes.byteOffset, waveformBytes.byteLength);
+
+  return {
+    ...scalars,
+    frequencies: fromBase64(frame.f),
+    bands: dequantize(frame.b),
+    rawBands: dequantize(frame.rb),
+    waveform: Float32Array.from(signed, sample => sample / 127),
+    chroma: dequantize(frame.c),
+    stereo: {
+      width: stereo.width,
+      balance: stereo.balance,
+      correlation: stereo.correlation,
+      left: { ...stereo.left, frequencies: new Uint8Array(0), bands: dequantize(frame.lb) },
+      right: { ...stereo.right, frequencies: new Uint8Array(0), bands: dequantize(frame.rcb) },
+    },
+  };
+}
+
+// Frames are encoded as they arrive, so a long recording costs a few KB per frame
+export class SessionRecorder {
+  private frames: EncodedFrame[] = [];
+  private metadata: SessionMetadata | null = null;
+  private startedAt = 0;
+
+  public get isRecording() {
+    return this.metadata !== null;
+  }
+
+  public get frameCount() {
+    return this.frames.length;
+  }
+
+  public start(metadata: SessionMetadata) {
+    this.frames = [];
+    this.metadata = metadata;
+    this.startedAt = performance.now();
+  }
+
+  public addFrame(data: AudioData) {
+    if (!this.metadata) return;
+    this.frames.push(encodeFrame(performance.now() - this.startedAt, data));
+    if (this.frames.length > MAX_FRAMES) this.frames.shift();
+  }
+
+  public stop(): RecordedSession | null {
+    const metadata = this.metadata;
+    this.metadata = null;
+    if (!metadata || this.frames.length === 0) return null;
+
+    const frames = this.frames;
+    this.frames = [];
+    const first = frames[0].t;
+    // Rebase in case the head was dropped
+    frames.forEach(frame => { frame.t -= first; });
+
+    return {
+      ...metadata,
+      version: SESSION_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      durationMs: frames[frames.length - 1].t,
+      frames,
+    };
+  }
+}
+
+// Decodes lazily, one frame at a time, so long sessions don't sit in memory as typed arrays
+export class SessionPlayer {
+  public readonly session: RecordedSession;
+  private index = -1;
+
+  constructor(session: RecordedSession) {
+    this.session = session;
+  }
+
+  public get frameIndex() {
+    return Math.max(0, this.index);
+  }
+
+  public get frameCount() {
+    return this.session.frames.length;
+  }
+
+  public get position() {
+    return this.session.frames[this.frameIndex]?.t ?? 0;
+  }
+
+  public get duration() {
+    return this.session.durationMs;
+  }
+
+  public get atEnd() {
+    return this.index >= this.session.frames.length - 1;
+  }
+
+  // Last frame at or before the given time
+  private indexAt(time: number): number {
+    const frames = this.session.frames;
+    let low = 0;
+    let high = frames.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (frames[mid].t <= time) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+
+  // Onsets, beats and section boundaries from frames that were skipped over are carried
+  // onto the returned frame, the same way the live path merges audio-thread frames
+  private moveTo(target: number): ReplayFrame {
+    const frames = this.session.frames;
+    const next = Math.max(0, Math.min(frames.length - 1, target));
+    // Landing on the same frame again (slow replay) mustn't fire its events twice
+    const from = next === this.index ? next + 1 : next > this.index ? this.index + 1 : next;
+    let onset: OnsetEvent | null = null;
+    let beat: BeatEvent | null = null;
+    const sectionEvents: SectionEvent[] = [];
+
+    for (let i = from; i <= next; i++) {
+      const { onset: frameOnset, beat: frameBeat, section } = frames[i].s;
+      if (frameOnset && (!onset || frameOnset.strength > onset.strength)) onset = frameOnset;
+      if (frameBeat && (!beat || frameBeat.strength > beat.strength)) beat = frameBeat;
+      if (section?.event) sectionEvents.push(section.event);
+    }
+
+    this.index = next;
+    const data = decodeFrame(frames[next]);
+    return { data: { ...data, onset, beat }, time: frames[next].t, sectionEvents };
+  }
+
+  public seek(time: number): ReplayFrame {
+    // Seeking shouldn't replay every beat in between
+    this.index = this.indexAt(time) - 1;
+    return this.moveTo(this.index + 1);
+  }
+
+  public advanceTo(time: number): ReplayFrame {
+    return this.moveTo(this.indexAt(time));
+  }
+
+  public step(frames: number): ReplayFrame {
+    return this.moveTo(this.index + frames);
+  }
+}
+
+// Gzipped when the browser supports CompressionStream
+export async function serializeSession(session: RecordedSession): Promise<Blob> {
+  const json = new Blob([JSON.stringify(session)], { type: 'application/json' });
+  if (typeof CompressionStream === 'undefined') return json;
+
+  const compressed = json.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(compressed).blob();
+}
+
+export async function parseSession(file: Blob): Promise<RecordedSession> {
+  const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isGzip = header[0] === 0x1f && header[1] === 0x8b;
+
+  let text: string;
+  if (isGzip) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot read compressed recordings');
+    }
+    text = await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+  } else {
+    text = await file.text();
+  }
+
+  const session = JSON.parse(text) as RecordedSession;
+  if (session.version !== SESSION_FORMAT_VERSION || !Array.isArray(session.frames) || session.frames.length === 0) {
+    throw new Error('Not a Waveline recording, or from an incompatible version');
+  }
+  return session;
+}
+
+export async function downloadSession(session: RecordedSession) {
+  const blob = await serializeSession(session);
+  const name = (session.track?.name ?? 'session').replace(/[^\w-]+/g, '-').toLowerCase();
+  const gzip = blob.type !== 'application/json';
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `waveline-${name}-${Date.now()}${SESSION_FILE_EXTENSION}${gzip ? '.gz' : ''}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
@@ -0,0 +1,154 @@
+// Collects descriptive statistics from the first stretch of captured audio for a track
+
+import type { KeyMode } from '@/lib/keyDetector';
+
+export interface SignalFrame {
+  time: number; // ms
+  frequencies: Uint8Array;
+  sampleRate: number;
+  rms: number; // un-normalised waveform RMS
+  bassLevel: number; // un-normalised
+  midLevel: number;
+  trebleLevel: number;
+  onset: boolean;
+  beatInterval: number | null; // ms since the previous beat, when a beat fired this frame
+  tempo: number | null; // confident live BPM, if any
+  mode: KeyMode | null; // confident key mode, if any
+}
+
+export interface SignalSummary {
+  duration: number; // seconds of audible signal the summary covers
+  centroidHz: number; // mean spectral centroid
+  flatness: number; // 0-1 mean spectral flatness (1 = white noise)
+  loudnessDb: number; // median RMS level in dBFS
+  dynamicRangeDb: number; // spread between loud (95th) and quiet (10th percentile) passages
+  onsetDensity: number; // onsets per second
+  beatRegularity: number; // 0-1 share of beat intervals close to the median interval
+  bassShare: number; // 0-1 bass level as a share of bass + mid + treble
+  midModulation: number; // coefficient of variation of the mid band beyond the overall level's
+  tempo: number | null;
+  mode: KeyMode | null;
+}
+
+// Frames quieter than this don't count toward the summary
+const SILENCE_RMS = 0.003;
+const DEFAULT_SECONDS = 30;
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function coefficientOfVariation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (mean <= 0) return 0;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+export class SignalFeatureCollector {
+  private seconds: number;
+  private audibleMs = 0;
+  private lastTime: number | null = null;
+  private centroidSum = 0;
+  private flatnessSum = 0;
+  private spectralFrames = 0;
+  private loudness: number[] = [];
+  private onsets = 0;
+  private beatIntervals: number[] = [];
+  private bassShareSum = 0;
+  private midLevels: number[] = [];
+  private volumeLevels: number[] = [];
+  private tempo: number | null = null;
+  private mode: KeyMode | null = null;
+
+  constructor(seconds = DEFAULT_SECONDS) {
+    this.seconds = seconds;
+  }
+
+  public get isReady(): boolean {
+    return this.audibleMs >= this.seconds * 1000;
+  }
+
+  public addFrame(frame: SignalFrame) {
+    const dt = this.lastTime === null ? 0 : Math.max(0, Math.min(250, frame.time - this.lastTime));
+    this.lastTime = frame.time;
+    if (this.isReady || frame.rms < SILENCE_RMS) return;
+
+    this.audibleMs += dt;
+    this.addSpectrum(frame.frequencies, frame.sampleRate);
+    this.loudness.push(20 * Math.log10(frame.rms));
+
+    const levelSum = frame.bassLevel + frame.midLevel + frame.trebleLevel;
+    if (levelSum > 0) this.bassShareSum += frame.bassLevel / levelSum;
+    this.midLevels.push(frame.midLevel);
+    this.volumeLevels.push(levelSum / 3);
+
+    if (frame.onset) this.onsets++;
+    if (frame.beatInterval !== null) this.beatIntervals.push(frame.beatInterval);
+    if (frame.tempo !== null) this.tempo = frame.tempo;
+    if (frame.mode !== null) this.mode = frame.mode;
+  }
+
+  // Null until enough audible signal has been collected
+  public getSummary(): SignalSummary | null {
+    if (!this.isReady || this.spectralFrames === 0) return null;
+
+    const sortedLoudness = [...this.loudness].sort((a, b) => a - b);
+    const sortedIntervals = [...this.beatIntervals].sort((a, b) => a - b);
+    const medianInterval = percentile(sortedIntervals, 0.5);
+    const regular = sortedIntervals.filter(interval => Math.abs(interval - medianInterval) <= medianInterval * 0.1).length;
+
+    return {
+      duration: this.audibleMs / 1000,
+      centroidHz: this.centroidSum / this.spectralFrames,
+      flatness: this.flatnessSum / this.spectralFrames,
+      loudnessDb: percentile(sortedLoudness, 0.5),
+      dynamicRangeDb: percentile(sortedLoudness, 0.95) - percentile(sortedLoudness, 0.1),
+      onsetDensity: this.onsets / (this.audibleMs / 1000),
+      beatRegularity: sortedIntervals.length > 0 ? regular / sortedIntervals.length : 0,
+      bassShare: this.bassShareSum / this.loudness.length,
+      midModulation: Math.max(0, coefficientOfVariation(this.midLevels) - coefficientOfVariation(this.volumeLevels)),
+      tempo: this.tempo,
+      mode: this.mode,
+    };
+  }
+
+  public reset() {
+    this.audibleMs = 0;
+    this.lastTime = null;
+    this.centroidSum = 0;
+    this.flatnessSum = 0;
+    this.spectralFrames = 0;
+    this.loudness = [];
+    this.onsets = 0;
+    this.beatIntervals = [];
+    this.bassShareSum = 0;
+    this.midLevels = [];
+    this.volumeLevels = [];
+    this.tempo = null;
+    this.mode = null;
+  }
+
+  private addSpectrum(frequencies: Uint8Array, sampleRate: number) {
+    const binHz = sampleRate / (frequencies.length * 2);
+    let weighted = 0;
+    let total = 0;
+    let logSum = 0;
+
+    for (let i = 1; i < frequencies.length; i++) {
+      const magnitude = (frequencies[i] / 255) ** 2 + 1e-6;
+      weighted += i * binHz * magnitude;
+      total += magnitude;
+      logSum += Math.log(magnitude);
+    }
+
+    const bins = frequencies.length - 1;
+    if (bins <= 0 || total <= 0) return;
+
+    this.centroidSum += weighted / total;
+    this.flatnessSum += Math.exp(logSum / bins) / (total / bins);
+    this.spectralFrames++;
+  }
+}
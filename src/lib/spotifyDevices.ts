@@ -0,0 +1,60 @@
+// Spotify Connect devices through the proxy, and the remote-device preference: when set,
+// playback stays on whichever device the user chose and the visuals listen through a
+// microphone or line-in instead of capturing this tab.
+
+export interface SpotifyDevice {
+  id: string;
+  name: string;
+  type: string; // Computer, Smartphone, Speaker, ...
+  isActive: boolean;
+  isThisDevice: boolean; // this tab's Web Playback SDK player
+  isRestricted: boolean; // accepts no Web API commands
+  volume: number | null; // 0-1, null where the device doesn't report it
+}
+
+interface SpotifyDeviceItem {
+  id: string | null;
+  name: string;
+  type: string;
+  is_active: boolean;
+  is_restricted: boolean;
+  volume_percent: number | null;
+}
+
+const REMOTE_MODE_KEY = 'waveline.remoteMode';
+
+export async function fetchDevices(localDeviceId: string | null): Promise<SpotifyDevice[]> {
+  const response = await fetch('/api/spotify/me/player/devices');
+  if (!response.ok) throw new Error('Could not list Spotify devices');
+
+  const data = await response.json();
+  // Some devices have no id until they are woken from the Spotify app
+  return ((data?.devices ?? []) as SpotifyDeviceItem[])
+    .filter((device): device is SpotifyDeviceItem & { id: string } => !!device.id)
+    .map(device => ({
+      id: device.id,
+      name: device.name,
+      type: device.type,
+      isActive: device.is_active,
+      isThisDevice: device.id === localDeviceId,
+      isRestricted: device.is_restricted,
+      volume: device.volume_percent === null ? null : device.volume_percent / 100,
+    }));
+}
+
+export function loadRemoteMode(): boolean {
+  try {
+    return localStorage.getItem(REMOTE_MODE_KEY) === 'true';
+  } catch (error) {
+    console.warn('Failed to read remote mode:', error);
+    return false;
+  }
+}
+
+export function saveRemoteMode(remote: boolean) {
+  try {
+    localStorage.setItem(REMOTE_MODE_KEY, String(remote));
+  } catch (error) {
+    console.warn('Failed to save remote mode:', error);
+  }
+}
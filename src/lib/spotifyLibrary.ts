@@ -0,0 +1,138 @@
+// The user's library through the Spotify proxy: playlists, saved albums and liked songs,
+// one page at a time. Each page carries the proxy path of the next, taken from Spotify's
+// `next` cursor, or null once the list is exhausted.
+
+import { thumbnail, type SpotifyImage } from './spotifySearch';
+
+export interface LibraryPage<T> {
+  items: T[];
+  next: string | null; // proxy path
+  total: number;
+}
+
+export interface LibraryCollection {
+  type: 'playlist' | 'album';
+  id: string;
+  uri: string;
+  name: string;
+  subtitle: string; // owner or artists
+  image?: string;
+  trackCount: number;
+}
+
+export interface LibraryTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artists: string[];
+  album: string;
+  image?: string; // album tracks leave this to the collection's artwork
+  duration: number; // ms
+}
+
+export type PageLoader<T> = (path: string, signal?: AbortSignal) => Promise<LibraryPage<T>>;
+
+const PAGE_SIZE = 50; // the most Spotify returns per page for every library endpoint
+const API_BASE = 'https://api.spotify.com/v1/';
+
+interface SpotifyTrackItem {
+  id: string | null;
+  uri: string;
+  name: string;
+  type?: string;
+  is_local?: boolean;
+  duration_ms: number;
+  artists: Array<{ name: string }>;
+  album?: { name: string; images: SpotifyImage[] };
+}
+
+interface SpotifyCollectionItem {
+  id: string;
+  uri: string;
+  name: string;
+  images: SpotifyImage[] | null;
+  owner?: { display_name?: string };
+  artists?: Array<{ name: string }>;
+  tracks?: { total: number };
+  total_tracks?: number;
+}
+
+// Spotify's cursors are absolute API URLs; the proxy takes the path below /v1/
+function toProxyPath(next: string | null): string | null {
+  return next?.startsWith(API_BASE) ? next.slice(API_BASE.length) : null;
+}
+
+async function fetchPage<Raw, T>(
+  path: string,
+  convert: (raw: Raw) => T | null,
+  signal?: AbortSignal
+): Promise<LibraryPage<T>> {
+  const response = await fetch(`/api/spotify/${path}`, { signal });
+  if (!response.ok) {
+    // Sessions from before the library scopes were requested get a 403 here
+    throw new Error(
+      response.status === 401 || response.status === 403
+        ? 'Please reconnect to Spotify to browse your library'
+        : 'Could not load your library'
+    );
+  }
+
+  const data = await response.json();
+  return {
+    items: ((data?.items ?? []) as Raw[])
+      .map(convert)
+      .filter((item): item is T => item !== null),
+    next: toProxyPath(data?.next ?? null),
+    total: data?.total ?? 0,
+  };
+}
+
+// Local files and podcast episodes can't be started by URI from here
+function toLibraryTrack(track: SpotifyTrackItem | null | undefined): LibraryTrack | null {
+  if (!track?.id || track.is_local || (track.type && track.type !== 'track')) return null;
+  return {
+    id: track.id,
+    uri: track.uri,
+    name: track.name,
+    artists: track.artists.map(artist => artist.name),
+    album: track.album?.name ?? '',
+    image: thumbnail(track.album?.images),
+    duration: track.duration_ms,
+  };
+}
+
+function toCollection(type: LibraryCollection['type'], item: SpotifyCollectionItem | null): LibraryCollection | null {
+  if (!item) return null;
+  return {
+    type,
+    id: item.id,
+    uri: item.uri,
+    name: item.name,
+    subtitle: type === 'playlist'
+      ? item.owner?.display_name ?? ''
+      : item.artists?.map(artist => artist.name).join(', ') ?? '',
+    image: item.images?.[0]?.url, // largest first; shown as cards
+    trackCount: item.tracks?.total ?? item.total_tracks ?? 0,
+  };
+}
+
+export const PLAYLISTS_PATH = `me/playlists?limit=${PAGE_SIZE}`;
+export const SAVED_ALBUMS_PATH = `me/albums?limit=${PAGE_SIZE}`;
+export const LIKED_TRACKS_PATH = `me/tracks?limit=${PAGE_SIZE}`;
+
+export function collectionTracksPath(collection: LibraryCollection): string {
+  return `${collection.type}s/${encodeURIComponent(collection.id)}/tracks?limit=${PAGE_SIZE}`;
+}
+
+export const fetchPlaylists: PageLoader<LibraryCollection> = (path, signal) =>
+  fetchPage<SpotifyCollectionItem | null, LibraryCollection>(path, item => toCollection('playlist', item), signal);
+
+export const fetchSavedAlbums: PageLoader<LibraryCollection> = (path, signal) =>
+  fetchPage<{ album: SpotifyCollectionItem | null }, LibraryCollection>(path, item => toCollection('album', item.album), signal);
+
+// Liked songs and playlist tracks wrap each track with when it was added
+export const fetchSavedTracks: PageLoader<LibraryTrack> = (path, signal) =>
+  fetchPage<{ track: SpotifyTrackItem | null }, LibraryTrack>(path, item => toLibraryTrack(item.track), signal);
+
+export const fetchAlbumTracks: PageLoader<LibraryTrack> = (path, signal) =>
+  fetchPage<SpotifyTrackItem, LibraryTrack>(path, toLibraryTrack, signal);
@@ -0,0 +1,83 @@
+// Catalog search through the Spotify proxy, flattened to one shape for every result type
+
+export type SearchType = 'track' | 'album' | 'artist' | 'playlist';
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  uri: string;
+  name: string;
+  subtitle: string; // artists, owner or follower count, depending on type
+  image?: string; // thumbnail
+  artwork?: string; // largest available, for cards
+}
+
+export interface SpotifyImage {
+  url: string;
+  width: number | null;
+}
+
+interface SpotifySearchItem {
+  id: string;
+  uri: string;
+  name: string;
+  images?: SpotifyImage[];
+  album?: { images: SpotifyImage[] };
+  artists?: Array<{ name: string }>;
+  owner?: { display_name?: string };
+  followers?: { total: number };
+}
+
+// Smallest image that still fills a list thumbnail
+export function thumbnail(images: SpotifyImage[] | undefined): string | undefined {
+  if (!images?.length) return undefined;
+  const fitting = images.filter(image => (image.width ?? 0) >= 64);
+  return (fitting[fitting.length - 1] ?? images[0]).url;
+}
+
+function subtitleFor(type: SearchType, item: SpotifySearchItem): string {
+  switch (type) {
+    case 'track':
+    case 'album':
+      return item.artists?.map(artist => artist.name).join(', ') ?? '';
+    case 'artist':
+      return item.followers ? `${item.followers.total.toLocaleString()} followers` : 'Artist';
+    case 'playlist':
+      return item.owner?.display_name ? `By ${item.owner.display_name}` : 'Playlist';
+  }
+}
+
+export function toSearchResult(type: SearchType, item: SpotifySearchItem): SearchResult {
+  const images = item.images ?? item.album?.images;
+  return {
+    type,
+    id: item.id,
+    uri: item.uri,
+    name: item.name,
+    subtitle: subtitleFor(type, item),
+    image: thumbnail(images),
+    artwork: images?.[0]?.url, // Spotify lists the largest first
+  };
+}
+
+// Results come back grouped in the order the types were asked for
+export async function searchSpotify(
+  query: string,
+  types: SearchType[],
+  limit = 5,
+  signal?: AbortSignal
+): Promise<SearchResult[]> {
+  const params = new URLSearchParams({ q: query, type: types.join(','), limit: String(limit) });
+  const response = await fetch(`/api/spotify/search?${params}`, { signal });
+  if (!response.ok) {
+    throw new Error(response.status === 401 ? 'Please reconnect to Spotify' : 'Search failed');
+  }
+
+  const data = await response.json();
+  return types.flatMap(type =>
+    // Spotify leaves nulls in place of items it can't return (e.g. removed playlists)
+    ((data?.[`${type}s`]?.items ?? []) as Array<SpotifySearchItem | null>)
+      .filter((item): item is SpotifySearchItem => !!item)
+      .map(item => toSearchResult(type, item))
+  );
+}
@@ -0,0 +1,181 @@
+// Per-channel analysis behind a ChannelSplitter, plus stereo width and balance
+
+import { getLevels, mapBands, type AnalyserSettings, type BandMapping } from '@/lib/bandMapper';
+
+export interface ChannelData {
+  frequencies: Uint8Array;
+  bands: Float32Array; // 0-1 perceptual bands, same mapping as AudioData.bands
+  rms: number;
+  bassLevel: number;
+  midLevel: number;
+  trebleLevel: number;
+}
+
+export interface StereoImage {
+  left: ChannelData;
+  right: ChannelData;
+  width: number; // 0 = mono, ~0.5 = uncorrelated, 1 = fully out of phase
+  balance: number; // -1 = hard left, 0 = centred, 1 = hard right
+  correlation: number; // -1 to 1 phase correlation between the channels
+}
+
+// Keeps width/balance from flickering between analysis frames
+const STEREO_SMOOTHING = 0.85;
+const SILENCE_RMS = 1e-4;
+
+function channelRms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+function emptyChannel(bandCount: number): ChannelData {
+  return {
+    frequencies: new Uint8Array(0),
+    bands: new Float32Array(bandCount),
+    rms: 0,
+    bassLevel: 0,
+    midLevel: 0,
+    trebleLevel: 0,
+  };
+}
+
+export function createSilentStereo(bandCount: number): StereoImage {
+  return {
+    left: emptyChannel(bandCount),
+    right: emptyChannel(bandCount),
+    width: 0,
+    balance: 0,
+    correlation: 1,
+  };
+}
+
+// Mirrors the mono levels into two channels with a slowly drifting image for simulated mode
+export function simulateStereo(
+  time: number,
+  mono: { bands: Float32Array; rms: number; bassLevel: number; midLevel: number; trebleLevel: number }
+): StereoImage {
+  const balance = Math.sin(time * 0.3) * 0.4;
+  const width = 0.2 + (Math.sin(time * 0.17) * 0.5 + 0.5) * 0.4;
+  const channel = (gain: number): ChannelData => ({
+    frequencies: new Uint8Array(0),
+    bands: mono.bands.map(value => Math.min(1, value * gain)),
+    rms: mono.rms * gain,
+    bassLevel: Math.min(1, mono.bassLevel * gain),
+    midLevel: Math.min(1, mono.midLevel * gain),
+    trebleLevel: Math.min(1, mono.trebleLevel * gain),
+  });
+
+  return {
+    left: channel(1 - balance * 0.5),
+    right: channel(1 + balance * 0.5),
+    width,
+    balance,
+    correlation: 1 - width * 2,
+  };
+}
+
+export class StereoAnalyser {
+  private upmix: GainNode;
+  private splitter: ChannelSplitterNode;
+  private left: AnalyserNode;
+  private right: AnalyserNode;
+  private width = 0;
+  private balance = 0;
+
+  constructor(context: AudioContext, settings: AnalyserSettings) {
+    // Up-mix mono sources into both channels instead of leaving the right one silent. The
+    // splitter's own channel handling is fixed by the spec, so a gain node does the mixing.
+    this.upmix = context.createGain();
+    this.upmix.channelCount = 2;
+    this.upmix.channelCountMode = 'explicit';
+    this.upmix.channelInterpretation = 'speakers';
+    this.splitter = context.createChannelSplitter(2);
+    this.upmix.connect(this.splitter);
+
+    this.left = context.createAnalyser();
+    this.right = context.createAnalyser();
+    this.splitter.connect(this.left, 0);
+    this.splitter.connect(this.right, 1);
+    this.configure(settings);
+  }
+
+  public get input(): AudioNode {
+    return this.upmix;
+  }
+
+  public get binCount(): number {
+    return this.left.frequencyBinCount;
+  }
+
+  public configure(settings: AnalyserSettings) {
+    for (const analyser of [this.left, this.right]) {
+      try {
+        analyser.fftSize = settings.fftSize;
+        analyser.smoothingTimeConstant = settings.smoothing;
+      } catch (error) {
+        console.warn('Invalid stereo analyser settings:', error);
+      }
+    }
+  }
+
+  public analyse(mapping: BandMapping): StereoImage {
+    const leftSamples = new Float32Array(this.left.fftSize);
+    const rightSamples = new Float32Array(this.right.fftSize);
+    this.left.getFloatTimeDomainData(leftSamples);
+    this.right.getFloatTimeDomainData(rightSamples);
+
+    // Mid/side energy gives the width, left/right energy the balance
+    let midSum = 0;
+    let sideSum = 0;
+    let cross = 0;
+    for (let i = 0; i < leftSamples.length; i++) {
+      const mid = (leftSamples[i] + rightSamples[i]) / 2;
+      const side = (leftSamples[i] - rightSamples[i]) / 2;
+      midSum += mid * mid;
+      sideSum += side * side;
+      cross += leftSamples[i] * rightSamples[i];
+    }
+
+    const leftRms = channelRms(leftSamples);
+    const rightRms = channelRms(rightSamples);
+    const total = leftRms + rightRms;
+    const midRms = Math.sqrt(midSum / leftSamples.length);
+    const sideRms = Math.sqrt(sideSum / leftSamples.length);
+
+    const width = midRms + sideRms > SILENCE_RMS ? sideRms / (midRms + sideRms) : 0;
+    const balance = total > SILENCE_RMS ? (rightRms - leftRms) / total : 0;
+    const energy = leftRms * rightRms * leftSamples.length;
+    const correlation = energy > SILENCE_RMS ? Math.max(-1, Math.min(1, cross / energy)) : 1;
+
+    this.width = this.width * STEREO_SMOOTHING + width * (1 - STEREO_SMOOTHING);
+    this.balance = this.balance * STEREO_SMOOTHING + balance * (1 - STEREO_SMOOTHING);
+
+    return {
+      left: this.analyseChannel(this.left, leftRms, mapping),
+      right: this.analyseChannel(this.right, rightRms, mapping),
+      width: this.width,
+      balance: this.balance,
+      correlation,
+    };
+  }
+
+  public disconnect() {
+    this.upmix.disconnect();
+    this.splitter.disconnect();
+    this.left.disconnect();
+    this.right.disconnect();
+  }
+
+  private analyseChannel(analyser: AnalyserNode, rms: number, mapping: BandMapping): ChannelData {
+    const frequencies = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(frequencies);
+
+    return {
+      frequencies,
+      bands: mapBands(frequencies, mapping),
+      rms,
+      ...getLevels(frequencies, mapping),
+    };
+  }
+}
@@ -0,0 +1,229 @@
+// Live tempo and beat-phase tracking from the spectral-flux onset envelope
+
+export interface TempoEstimate {
+  bpm: number;
+  phase: number; // 0-1 position inside the current beat, 0 = on the beat
+  confidence: number; // 0-1
+  lastBeatTime: number; // ms, predicted time of the most recent beat
+}
+
+export interface TempoTrackerOptions {
+  minBpm?: number;
+  maxBpm?: number;
+  windowSeconds?: number; // length of onset history used for autocorrelation
+  updateInterval?: number; // ms between tempo re-estimates
+  preferredBpm?: number; // centre of the perceptual weighting used to settle octave errors
+}
+
+// A live estimate replaces the metadata tempo once it is at least this confident
+export const TEMPO_CONFIDENCE_THRESHOLD = 0.5;
+
+const DEFAULT_OPTIONS: Required<TempoTrackerOptions> = {
+  minBpm: 60,
+  maxBpm: 200,
+  windowSeconds: 8,
+  updateInterval: 500,
+  preferredBpm: 120,
+};
+
+// The envelope is resampled onto a fixed grid so rAF jitter doesn't smear the lags
+const ENVELOPE_RATE = 50; // Hz
+const SAMPLE_MS = 1000 / ENVELOPE_RATE;
+const MIN_HISTORY_SECONDS = 3;
+
+export class TempoTracker {
+  private options: Required<TempoTrackerOptions>;
+  private envelope: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+  private bucketStart: number | null = null;
+  private bucketValue = 0;
+  private lastEstimateTime = -Infinity;
+  private bpm = 0;
+  private confidence = 0;
+  private lastBeatTime = 0;
+  private recentEstimates: number[] = [];
+
+  constructor(options: TempoTrackerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.envelope = new Float32Array(Math.round(this.options.windowSeconds * ENVELOPE_RATE));
+  }
+
+  // Feed one onset-strength value per analysis frame
+  public process(flux: number, time: number): TempoEstimate | null {
+    if (this.bucketStart === null) {
+      this.bucketStart = time;
+    }
+
+    // Close every grid slot the frame clock has moved past
+    while (time - this.bucketStart >= SAMPLE_MS) {
+      this.pushSample(this.bucketValue);
+      this.bucketValue = 0;
+      this.bucketStart += SAMPLE_MS;
+    }
+    this.bucketValue = Math.max(this.bucketValue, flux);
+
+    if (
+      this.filled >= MIN_HISTORY_SECONDS * ENVELOPE_RATE &&
+      time - this.lastEstimateTime >= this.options.updateInterval
+    ) {
+      this.lastEstimateTime = time;
+      this.estimate(this.bucketStart);
+    }
+
+    return this.getEstimate(time);
+  }
+
+  public getEstimate(time: number): TempoEstimate | null {
+    if (this.bpm <= 0) return null;
+
+    const period = 60000 / this.bpm;
+    const elapsed = time - this.lastBeatTime;
+    const phase = ((elapsed / period) % 1 + 1) % 1;
+
+    return {
+      bpm: this.bpm,
+      phase,
+      confidence: this.confidence,
+      lastBeatTime: time - phase * period,
+    };
+  }
+
+  public reset() {
+    this.envelope.fill(0);
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.bucketStart = null;
+    this.bucketValue = 0;
+    this.lastEstimateTime = -Infinity;
+    this.bpm = 0;
+    this.confidence = 0;
+    this.lastBeatTime = 0;
+    this.recentEstimates = [];
+  }
+
+  private pushSample(value: number) {
+    this.envelope[this.writeIndex] = value;
+    this.writeIndex = (this.writeIndex + 1) % this.envelope.length;
+    this.filled = Math.min(this.filled + 1, this.envelope.length);
+  }
+
+  // Oldest-first copy of the envelope, lightly blurred so one-slot peaks still
+  // line up at fractional lags, with the mean removed
+  private orderedEnvelope(): Float32Array {
+    const length = this.filled;
+    const raw = new Float32Array(length);
+    const ordered = new Float32Array(length);
+    const start = (this.writeIndex - length + this.envelope.length) % this.envelope.length;
+
+    for (let i = 0; i < length; i++) {
+      raw[i] = this.envelope[(start + i) % this.envelope.length];
+    }
+
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      const previous = raw[Math.max(0, i - 1)];
+      const next = raw[Math.min(length - 1, i + 1)];
+      ordered[i] = previous * 0.25 + raw[i] * 0.5 + next * 0.25;
+      sum += ordered[i];
+    }
+
+    const mean = sum / length;
+    for (let i = 0; i < length; i++) ordered[i] -= mean;
+
+    return ordered;
+  }
+
+  private estimate(envelopeEndTime: number) {
+    const signal = this.orderedEnvelope();
+    const length = signal.length;
+
+    let energy = 0;
+    for (let i = 0; i < length; i++) energy += signal[i] * signal[i];
+    if (energy <= 1e-9) {
+      this.confidence *= 0.5;
+      return;
+    }
+
+    const minLag = Math.floor((60 * ENVELOPE_RATE) / this.options.maxBpm);
+    const maxLag = Math.ceil((60 * ENVELOPE_RATE) / this.options.minBpm);
+    const correlation = new Float32Array(maxLag * 2 + 2);
+
+    for (let lag = Math.max(1, minLag - 1); lag < correlation.length && lag < length; lag++) {
+      let sum = 0;
+      for (let i = lag; i < length; i++) sum += signal[i] * signal[i - lag];
+      correlation[lag] = sum / energy;
+    }
+
+    // Pick the lag with the best perceptually-weighted score; doubling the lag
+    // adds its support so a clear half-time pulse can't win on its own
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const bpm = (60 * ENVELOPE_RATE) / lag;
+      const octaves = Math.log2(bpm / this.options.preferredBpm);
+      const weight = Math.exp(-0.5 * octaves * octaves);
+      const support = lag * 2 < correlation.length ? correlation[lag * 2] * 0.5 : 0;
+      const score = (correlation[lag] + support) * weight;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    if (bestLag === 0 || correlation[bestLag] <= 0) {
+      this.confidence *= 0.5;
+      return;
+    }
+
+    // Parabolic interpolation for a sub-sample period
+    const left = correlation[bestLag - 1] ?? correlation[bestLag];
+    const right = correlation[bestLag + 1] ?? correlation[bestLag];
+    const denominator = left - 2 * correlation[bestLag] + right;
+    const offset = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (left - right) / denominator)) : 0;
+    const period = bestLag + offset;
+    const candidateBpm = (60 * ENVELOPE_RATE) / period;
+
+    this.recentEstimates.push(candidateBpm);
+    if (this.recentEstimates.length > 6) this.recentEstimates.shift();
+
+    // Small drifts are smoothed; jumps are only accepted once they repeat
+    if (this.bpm === 0 || Math.abs(candidateBpm - this.bpm) / this.bpm < 0.04) {
+      this.bpm = this.bpm === 0 ? candidateBpm : this.bpm * 0.7 + candidateBpm * 0.3;
+    } else {
+      const previous = this.recentEstimates[this.recentEstimates.length - 2];
+      if (previous !== undefined && Math.abs(candidateBpm - previous) / previous < 0.04) {
+        this.bpm = candidateBpm;
+      }
+    }
+
+    const agreeing = this.recentEstimates.filter(value => Math.abs(value - this.bpm) / this.bpm < 0.04).length;
+    const stability = agreeing / this.recentEstimates.length;
+    const strength = Math.min(1, correlation[bestLag] * 2);
+    this.confidence = strength * 0.5 + stability * 0.5;
+
+    // Phase comes from the tempo actually reported, not a candidate that was just rejected
+    this.lastBeatTime = this.findBeatOffset(signal, (60 * ENVELOPE_RATE) / this.bpm, envelopeEndTime);
+  }
+
+  // Comb-filter the envelope at the chosen period to find where the beats fall
+  private findBeatOffset(signal: Float32Array, period: number, envelopeEndTime: number): number {
+    const slots = Math.max(1, Math.round(period));
+    let bestOffset = 0;
+    let bestSum = -Infinity;
+
+    for (let offset = 0; offset < slots; offset++) {
+      let sum = 0;
+      for (let position = signal.length - 1 - offset; position >= 0; position -= period) {
+        sum += signal[Math.round(position)] ?? 0;
+      }
+      if (sum > bestSum) {
+        bestSum = sum;
+        bestOffset = offset;
+      }
+    }
+
+    return envelopeEndTime - (bestOffset + 1) * SAMPLE_MS;
+  }
+}
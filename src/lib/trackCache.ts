@@ -0,0 +1,203 @@
+// Server-side cache of per-track analysis + Visual DNA: in-memory LRU in front of a JSON file per track
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Bump when the cached payload shape changes; older entries are treated as misses
+export const TRACK_CACHE_SCHEMA_VERSION = 1;
+
+const DEFAULT_DIR = '.cache/track-analysis';
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_MEMORY_LIMIT = 200;
+// Spotify ids are 22 base62 characters; anything else never reaches the filesystem
+const TRACK_ID_PATTERN = /^[A-Za-z0-9]{1,64}$/;
+
+export interface TrackCacheEntry<T = unknown> {
+  schemaVersion: number;
+  trackId: string;
+  createdAt: number;
+  expiresAt: number;
+  data: T;
+}
+
+export interface TrackCacheStats {
+  directory: string;
+  schemaVersion: number;
+  ttlMs: number;
+  memoryEntries: number;
+  memoryLimit: number;
+  hits: number;
+  misses: number;
+}
+
+interface TrackCacheOptions {
+  directory?: string;
+  ttlMs?: number;
+  memoryLimit?: number;
+}
+
+export function isValidTrackId(trackId: unknown): trackId is string {
+  return typeof trackId === 'string' && TRACK_ID_PATTERN.test(trackId);
+}
+
+export class TrackCache<T = unknown> {
+  private memory = new Map<string, TrackCacheEntry<T>>();
+  private directory: string;
+  private ttlMs: number;
+  private memoryLimit: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: TrackCacheOptions = {}) {
+    this.directory = path.resolve(options.directory ?? DEFAULT_DIR);
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.memoryLimit = options.memoryLimit ?? DEFAULT_MEMORY_LIMIT;
+  }
+
+  private filePath(trackId: string) {
+    return path.join(this.directory, `${trackId}.json`);
+  }
+
+  private isFresh(entry: TrackCacheEntry<T>) {
+    return entry.schemaVersion === TRACK_CACHE_SCHEMA_VERSION && entry.expiresAt > Date.now();
+  }
+
+  // Re-inserting moves the entry to the most-recently-used end
+  private remember(entry: TrackCacheEntry<T>) {
+    this.memory.delete(entry.trackId);
+    this.memory.set(entry.trackId, entry);
+    if (this.memory.size > this.memoryLimit) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+
+  private async readFile(trackId: string): Promise<TrackCacheEntry<T> | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(trackId), 'utf8');
+      return JSON.parse(raw) as TrackCacheEntry<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Track cache: unreadable entry for ${trackId}:`, error);
+      }
+      return null;
+    }
+  }
+
+  public async get(trackId: string): Promise<TrackCacheEntry<T> | null> {
+    if (!isValidTrackId(trackId)) return null;
+
+    const entry = this.memory.get(trackId) ?? await this.readFile(trackId);
+    if (!entry || !this.isFresh(entry)) {
+      if (entry) await this.delete(trackId);
+      this.misses++;
+      return null;
+    }
+
+    this.remember(entry);
+    this.hits++;
+    return entry;
+  }
+
+  public async set(trackId: string, data: T): Promise<TrackCacheEntry<T> | null> {
+    if (!isValidTrackId(trackId)) return null;
+
+    const now = Date.now();
+    const entry: TrackCacheEntry<T> = {
+      schemaVersion: TRACK_CACHE_SCHEMA_VERSION,
+      trackId,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+      data,
+    };
+    this.remember(entry);
+
+    // The memory copy still serves hits if the disk write fails (e.g. read-only deploys)
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      const target = this.filePath(trackId);
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(entry), 'utf8');
+      await fs.rename(temp, target);
+    } catch (error) {
+      console.warn(`Track cache: failed to persist ${trackId}:`, error);
+    }
+
+    return entry;
+  }
+
+  public async delete(trackId: string): Promise<boolean> {
+    if (!isValidTrackId(trackId)) return false;
+
+    const inMemory = this.memory.delete(trackId);
+    try {
+      await fs.unlink(this.filePath(trackId));
+      return true;
+    } catch {
+      return inMemory;
+    }
+  }
+
+  // Every entry on disk, including expired and stale-schema ones so they can be inspected
+  public async list(): Promise<TrackCacheEntry<T>[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      files = [];
+    }
+
+    const ids = new Set([
+      ...files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)),
+      ...this.memory.keys(),
+    ]);
+
+    const entries = await Promise.all(
+      [...ids].filter(isValidTrackId).map(async id => this.memory.get(id) ?? this.readFile(id))
+    );
+    return entries
+      .filter((entry): entry is TrackCacheEntry<T> => entry !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Removes everything, or with expiredOnly just the entries that would no longer be served
+  public async purge(expiredOnly = false): Promise<number> {
+    const entries = await this.list();
+    const targets = expiredOnly ? entries.filter(entry => !this.isFresh(entry)) : entries;
+
+    const removed = await Promise.all(targets.map(entry => this.delete(entry.trackId)));
+    return removed.filter(Boolean).length;
+  }
+
+  public getStats(): TrackCacheStats {
+    return {
+      directory: this.directory,
+      schemaVersion: TRACK_CACHE_SCHEMA_VERSION,
+      ttlMs: this.ttlMs,
+      memoryEntries: this.memory.size,
+      memoryLimit: this.memoryLimit,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
+
+// Inspect/purge endpoints need TRACK_CACHE_ADMIN_TOKEN as a bearer token, and stay closed until one is set
+export function isCacheAdminRequest(request: Request): boolean {
+  const token = process.env.TRACK_CACHE_ADMIN_TOKEN;
+  if (!token) return false;
+  return request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+let sharedCache: TrackCache | null = null;
+
+// One cache per server process; reads TRACK_CACHE_DIR / TRACK_CACHE_TTL_HOURS on first use
+export function getTrackCache<T = unknown>(): TrackCache<T> {
+  if (!sharedCache) {
+    const ttlHours = Number(process.env.TRACK_CACHE_TTL_HOURS);
+    sharedCache = new TrackCache({
+      directory: process.env.TRACK_CACHE_DIR,
+      ttlMs: ttlHours > 0 ? ttlHours * 60 * 60 * 1000 : undefined,
+    });
+  }
+  return sharedCache as TrackCache<T>;
+}
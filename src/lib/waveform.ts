@@ -0,0 +1,48 @@
+// Time-domain helpers shared by the real and simulated audio paths
+
+export const WAVEFORM_SIZE = 1024;
+
+export interface WaveformStats {
+  rms: number; // 0-1 true RMS of the samples
+  peak: number; // 0-1 absolute sample peak
+  crestFactor: number; // peak / rms, 0 when silent (a pure sine is ~1.41)
+}
+
+export function getWaveformStats(samples: Float32Array): WaveformStats {
+  let sumSquares = 0;
+  let peak = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+
+  const rms = samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0;
+  return { rms, peak, crestFactor: rms > 1e-6 ? peak / rms : 0 };
+}
+
+// Rough stand-in signal for simulated mode: one partial per level, in sensible registers
+export function synthesizeWaveform(
+  time: number,
+  levels: { bassLevel: number; midLevel: number; trebleLevel: number },
+  sampleRate = 44100,
+  length = WAVEFORM_SIZE
+): Float32Array {
+  const samples = new Float32Array(length);
+  const partials = [
+    { frequency: 60, amplitude: levels.bassLevel * 0.5 },
+    { frequency: 440, amplitude: levels.midLevel * 0.3 },
+    { frequency: 3520, amplitude: levels.trebleLevel * 0.15 },
+  ];
+
+  for (let i = 0; i < length; i++) {
+    const t = time + i / sampleRate;
+    let value = 0;
+    for (const partial of partials) {
+      value += Math.sin(2 * Math.PI * partial.frequency * t) * partial.amplitude;
+    }
+    samples[i] = Math.max(-1, Math.min(1, value));
+  }
+
+  return samples;
+}